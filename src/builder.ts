@@ -0,0 +1,219 @@
+import { Injectable } from '@angular/core';
+import { ValidationErrors } from '@angular/forms';
+
+import { TypedAsyncValidatorFn, TypedValidatorFn, ValidatorErrors } from './directives/validators';
+import {
+  AbstractTypedControl, NoInfer, NotUnion, TypedAbstractControlOptions, TypedFormArray, TypedFormArrayOptions, TypedFormControl,
+  TypedFormDictionary, TypedFormDictionaryOptions, TypedFormGroup
+} from './models';
+
+type ValidatorOrOpts<C extends AbstractTypedControl> =
+  TypedValidatorFn<C, any> | TypedValidatorFn<C, any>[] | TypedAbstractControlOptions<C, any> | null;
+
+type AsyncValidators<C extends AbstractTypedControl> = TypedAsyncValidatorFn<C, any> | TypedAsyncValidatorFn<C, any>[] | null;
+
+/**
+ * The errors of a control built with the given validators or options object, and async validators.
+ */
+type BuiltErrors<V, A> = WithDefaultErrors<
+  (V extends Function | any[] ? ValidatorErrors<V>
+    : V extends { validators?: infer X, asyncValidators?: infer Y } ? ValidatorErrors<X> | ValidatorErrors<Y>
+    : never)
+  | ValidatorErrors<A>
+>;
+
+/**
+ * Falls back to `ValidationErrors` when no validators were given, or their errors are not known.
+ */
+type WithDefaultErrors<E> =
+  [E] extends [never] ? ValidationErrors
+  : 0 extends (1 & E) ? ValidationErrors
+  : E extends ValidationErrors ? E
+  : never;
+
+/**
+ * @description
+ * The configuration of a single control accepted by the `TypedFormBuilder`, either:
+ *  - an existing typed control
+ *  - a tuple of `[initialValue, validatorOrOpts, asyncValidator]`, whose validators are checked
+ *    against the `TypedFormControl` of the initial value by the builder methods
+ *  - the initial value of a `TypedFormControl`
+ */
+export type TypedControlConfig =
+  AbstractTypedControl<any> |
+  [unknown] |
+  [unknown, ValidatorOrOpts<any>] |
+  [unknown, ValidatorOrOpts<any>, AsyncValidators<any>] |
+  string | number | boolean | bigint | symbol | object | null | undefined;
+
+/**
+ * Checks the validators of a tuple configuration against the `TypedFormControl` built from it.
+ */
+type CheckedConfig<C> =
+  C extends [infer V, ...any[]] ? [V, ValidatorOrOpts<TypedFormControl<V>>?, AsyncValidators<TypedFormControl<V>>?] : C;
+
+/**
+ * Checks the validators of the tuple configurations of a group or dictionary.
+ */
+type CheckedConfigs<C> = { [K in keyof C]: CheckedConfig<C[K]> };
+
+/**
+ * @description
+ * The typed control built from a `TypedControlConfig`.
+ */
+export type ControlFromConfig<C> =
+  C extends AbstractTypedControl<any> ? C
+  : C extends [infer V] ? TypedFormControl<V>
+  : C extends [infer V, infer Vs] ? TypedFormControl<V, BuiltErrors<Vs, null>>
+  : C extends [infer V, infer Vs, infer AVs] ? TypedFormControl<V, BuiltErrors<Vs, AVs>>
+  : TypedFormControl<C>;
+
+/**
+ * @description
+ * Creates typed controls from a configuration, mirroring the Angular `FormBuilder`. The type of
+ * every control in the tree is inferred from the arguments, including the errors of the
+ * validators given.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * const form = typedFormBuilder.group({
+ *   name: ['', TypedValidators.required],
+ *   age: typedFormBuilder.control(0, [TypedValidators.min(18)]),
+ *   tags: typedFormBuilder.array(['angular'])
+ * });
+ *
+ * form.controls.age.getError('min'); // type is { min: number, actual: number } | null | undefined
+ * ```
+ *
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class TypedFormBuilder {
+  /**
+   * @description
+   * Construct a new `TypedFormGroup` instance.
+   *
+   * @param controlsConfig A collection of child controls. The key for each child is the name
+   * under which it is registered.
+   *
+   * @param validatorOrOpts A synchronous validator function, or an array of such functions, or a
+   * `TypedAbstractControlOptions` object that contains validation functions and a validation
+   * trigger.
+   *
+   * @param asyncValidator A single async validator or array of async validator functions
+   */
+  group<
+    C extends { [key: string]: TypedControlConfig },
+    V extends ValidatorOrOpts<TypedFormGroup<{ [K in keyof C]: ControlFromConfig<C[K]> }>>,
+    A extends AsyncValidators<TypedFormGroup<{ [K in keyof C]: ControlFromConfig<C[K]> }>>
+  >(
+    controlsConfig: C & NoInfer<CheckedConfigs<C>>,
+    validatorOrOpts?: V,
+    asyncValidator?: A
+  ): TypedFormGroup<{ [K in keyof C]: ControlFromConfig<C[K]> }, BuiltErrors<V, A>> {
+    const controls = this._reduceControls(controlsConfig) as { [K in keyof C]: ControlFromConfig<C[K]> };
+    return new TypedFormGroup<{ [K in keyof C]: ControlFromConfig<C[K]> }, BuiltErrors<V, A>>(
+      controls, validatorOrOpts, asyncValidator
+    );
+  }
+
+  /**
+   * @description
+   * Construct a new `TypedFormDictionary` instance, all of the entries must be of the same type.
+   *
+   * @param controlsConfig A collection of the initial entries. The key for each entry is the name
+   * under which it is registered.
+   *
+   * @param validatorOrOpts A synchronous validator function, or an array of such functions, or a
+   * `TypedAbstractControlOptions` object that contains validation functions and a validation
+   * trigger.
+   *
+   * @param asyncValidator A single async validator or array of async validator functions
+   */
+  dictionary<
+    C extends TypedControlConfig,
+    V extends ValidatorOrOpts<TypedFormDictionary<ControlFromConfig<C>>> | TypedFormDictionaryOptions<ControlFromConfig<C>, string, any>,
+    A extends AsyncValidators<TypedFormDictionary<ControlFromConfig<C>>>
+  >(
+    controlsConfig: { [key: string]: C & NoInfer<CheckedConfig<C>> },
+    validatorOrOpts?: V,
+    asyncValidator?: A
+  ): TypedFormDictionary<ControlFromConfig<C>, string, BuiltErrors<V, A>> {
+    const controls = this._reduceControls(controlsConfig) as Record<string, NotUnion<ControlFromConfig<C>>>;
+    return new TypedFormDictionary<ControlFromConfig<C>, string, BuiltErrors<V, A>>(controls, validatorOrOpts, asyncValidator);
+  }
+
+  /**
+   * @description
+   * Construct a new `TypedFormControl` with the given state, validators and options.
+   *
+   * @param formState Initializes the control with an initial value.
+   *
+   * @param validatorOrOpts A synchronous validator function, or an array of such functions, or a
+   * `TypedAbstractControlOptions` object that contains validation functions and a validation
+   * trigger.
+   *
+   * @param asyncValidator A single async validator or array of async validator functions
+   */
+  control<
+    T,
+    V extends ValidatorOrOpts<TypedFormControl<T>>,
+    A extends AsyncValidators<TypedFormControl<T>>
+  >(
+    formState: T | null = null,
+    validatorOrOpts?: V,
+    asyncValidator?: A
+  ): TypedFormControl<T, BuiltErrors<V, A>> {
+    return new TypedFormControl<T, BuiltErrors<V, A>>(formState, validatorOrOpts, asyncValidator);
+  }
+
+  /**
+   * @description
+   * Constructs a new `TypedFormArray` from the given array of configurations, validators and
+   * options.
+   *
+   * @param controlsConfig An array of child controls or control configs.
+   *
+   * @param validatorOrOpts A synchronous validator function, or an array of such functions, or a
+   * `TypedAbstractControlOptions` object that contains validation functions and a validation
+   * trigger.
+   *
+   * @param asyncValidator A single async validator or array of async validator functions.
+   */
+  array<
+    C extends TypedControlConfig,
+    V extends ValidatorOrOpts<TypedFormArray<ControlFromConfig<C>>> | TypedFormArrayOptions<ControlFromConfig<C>, any>,
+    A extends AsyncValidators<TypedFormArray<ControlFromConfig<C>>>
+  >(
+    controlsConfig: Array<C & NoInfer<CheckedConfig<C>>>,
+    validatorOrOpts?: V,
+    asyncValidator?: A
+  ): TypedFormArray<ControlFromConfig<C>, BuiltErrors<V, A>> {
+    const controls = controlsConfig.map(config => this._createControl(config) as ControlFromConfig<C>);
+    return new TypedFormArray<ControlFromConfig<C>, BuiltErrors<V, A>>(controls, validatorOrOpts, asyncValidator);
+  }
+
+  /** @internal */
+  private _reduceControls(controlsConfig: { [key: string]: TypedControlConfig }): { [key: string]: AbstractTypedControl } {
+    const controls: { [key: string]: AbstractTypedControl } = {};
+    Object.keys(controlsConfig).forEach(controlName => {
+      controls[controlName] = this._createControl(controlsConfig[controlName]);
+    });
+    return controls;
+  }
+
+  /** @internal */
+  private _createControl(controlConfig: TypedControlConfig): AbstractTypedControl {
+    if (controlConfig instanceof AbstractTypedControl) {
+      return controlConfig;
+    } else if (Array.isArray(controlConfig)) {
+      const value = controlConfig[0];
+      const validator = controlConfig.length > 1 ? controlConfig[1] : null;
+      const asyncValidator = controlConfig.length > 2 ? controlConfig[2] : null;
+      return this.control(value, validator, asyncValidator);
+    } else {
+      return this.control(controlConfig);
+    }
+  }
+}
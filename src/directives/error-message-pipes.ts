@@ -0,0 +1,47 @@
+import { Pipe, PipeTransform } from '@angular/core';
+
+import { ErrorMessageRegistry } from '../error-messages';
+import { AbstractTypedControl } from '../models';
+
+/**
+ * @description
+ * Renders the messages of the errors of a typed control, from the `ErrorMessageRegistry`.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <li *ngFor="let message of form.controls.name | errorMessages">{{message}}</li>
+ * ```
+ *
+ * @publicApi
+ */
+@Pipe({ name: 'errorMessages', pure: false })
+export class ErrorMessagesPipe implements PipeTransform {
+  constructor(private registry: ErrorMessageRegistry) {}
+
+  transform(control: AbstractTypedControl | null | undefined): string[] {
+    return control ? this.registry.messagesFor(control) : [];
+  }
+}
+
+/**
+ * @description
+ * Renders the message of the first error of a typed control that has one, from the
+ * `ErrorMessageRegistry`, or `null`.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <span class="error">{{form.controls.name | errorMessage}}</span>
+ * ```
+ *
+ * @publicApi
+ */
+@Pipe({ name: 'errorMessage', pure: false })
+export class ErrorMessagePipe implements PipeTransform {
+  constructor(private registry: ErrorMessageRegistry) {}
+
+  transform(control: AbstractTypedControl | null | undefined): string | null {
+    return control ? this.registry.messagesFor(control)[0] ?? null : null;
+  }
+}
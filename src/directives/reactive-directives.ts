@@ -0,0 +1,364 @@
+import { Directive, forwardRef, Input, OnChanges, OnDestroy, SimpleChange, SimpleChanges } from '@angular/core';
+import {
+  ControlContainer, FormArrayName, FormControlDirective, FormControlName, FormGroupDirective, FormGroupName, NgControl
+} from '@angular/forms';
+
+import { AbstractTypedControl, TypedFormArray, TypedFormControl, TypedFormDictionary, TypedFormGroup } from '../models';
+import { TypedValidatorFn } from './validators';
+
+/**
+ * A directive that adds a validator to the typed control of the typed control directive on the
+ * same element, such as `TypedRequiredValidator`.
+ */
+export interface TypedValidatorDirective {
+  readonly validator: TypedValidatorFn<TypedFormControl<any, any>, any> | null;
+  registerOnValidatorChange(fn: () => void): void;
+}
+
+const addedValidators = new WeakMap<TypedValidatorDirective, TypedValidatorFn<TypedFormControl<any, any>, any>>();
+
+/**
+ * Maps the change of a typed control input onto the `form` input of the Angular directive.
+ */
+function toNgChanges(changes: SimpleChanges, input: string): SimpleChanges {
+  if (!changes.hasOwnProperty(input)) {
+    return changes;
+  }
+
+  const { previousValue, currentValue, firstChange } = changes[input];
+  return { ...changes, form: new SimpleChange(previousValue?.ng, currentValue?.ng, firstChange) };
+}
+
+/**
+ * Replaces the validator that a validator directive has added to a typed control with its current
+ * validator.
+ */
+function updateTypedValidator(control: TypedFormControl<any, any>, directive: TypedValidatorDirective): void {
+  const added = addedValidators.get(directive);
+  if (added) control.removeValidators(added);
+  addedValidators.delete(directive);
+
+  if (directive.validator) {
+    control.addValidators(directive.validator);
+    addedValidators.set(directive, directive.validator);
+  }
+}
+
+/**
+ * Moves the validators of the validator directives on the element of a typed control directive to
+ * the typed control that it binds, in the same way as Angular sets up and cleans up the
+ * `NG_VALIDATORS` of a control directive, and registers for the changes of their inputs.
+ */
+function bindTypedValidators(
+  previous: TypedFormControl<any, any> | null,
+  control: TypedFormControl<any, any> | null,
+  directives: TypedValidatorDirective[]
+): void {
+  if (previous === control || !directives.length) return;
+
+  if (previous) {
+    directives.forEach(directive => {
+      directive.registerOnValidatorChange(() => {});
+      const added = addedValidators.get(directive);
+      if (added) previous.removeValidators(added);
+      addedValidators.delete(directive);
+    });
+    previous.updateValueAndValidity({ emitEvent: false });
+  }
+
+  if (control) {
+    directives.forEach(directive => {
+      updateTypedValidator(control, directive);
+      directive.registerOnValidatorChange(() => {
+        updateTypedValidator(control, directive);
+        control.updateValueAndValidity();
+      });
+    });
+    control.updateValueAndValidity({ emitEvent: false });
+  }
+}
+
+/**
+ * Gets the name under which a typed control is registered with its parent.
+ */
+function nameOf(nameOrControl: string | number | AbstractTypedControl): string | number {
+  if (!(nameOrControl instanceof AbstractTypedControl)) {
+    return nameOrControl;
+  }
+
+  const parent = nameOrControl.parent;
+  if (parent instanceof TypedFormArray) {
+    const index = parent.controls.indexOf(nameOrControl);
+    if (index >= 0) return index;
+  } else if (parent) {
+    const controls: Record<string, AbstractTypedControl> = parent.controls;
+    const name = Object.keys(controls).find(key => controls[key] === nameOrControl);
+    if (name !== undefined) return name;
+  }
+
+  throw new Error('Cannot find the name of a control that is not part of a group, array or dictionary.');
+}
+
+/**
+ * Finds the typed control registered under the path of a directive, starting from the typed form at
+ * its root.
+ */
+function findTyped(directive: { formDirective: any, path: string[] | null }, selector: string): AbstractTypedControl {
+  if (!(directive.formDirective instanceof TypedFormGroupDirective)) {
+    throw new Error(`${selector} must be used inside a parent typedFormGroup directive.`);
+  }
+
+  const control = (directive.formDirective.typedControl as AbstractTypedControl).get(directive.path ?? []);
+  if (!control) {
+    throw new Error(`Cannot find control with path: '${directive.path?.join(' -> ')}'`);
+  }
+
+  return control;
+}
+
+/**
+ * @description
+ * Binds an existing `TypedFormGroup` to a DOM element, in the same way as the Angular
+ * `FormGroupDirective` does for a `FormGroup`.
+ *
+ * @usageNotes
+ *
+ * The typed form is exported as `typedControl`, so strict template type checking can follow the
+ * bindings of its children:
+ *
+ * ```html
+ * <form [typedFormGroup]="form" #f="typedFormGroup">
+ *   <input [typedFormControl]="f.typedControl.controls.name">
+ * </form>
+ * ```
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: '[typedFormGroup]',
+  providers: [{ provide: ControlContainer, useExisting: forwardRef(() => TypedFormGroupDirective) }],
+  exportAs: 'typedFormGroup'
+})
+export class TypedFormGroupDirective<G extends TypedFormGroup<any, any> = TypedFormGroup<any, any>>
+  extends FormGroupDirective implements OnChanges {
+  /**
+   * @description
+   * Tracks the `TypedFormGroup` bound to this directive.
+   */
+  typedControl!: G;
+
+  @Input()
+  set typedFormGroup(control: G) {
+    this.typedControl = control;
+    this.form = control.ng;
+  }
+
+  /** @nodoc */
+  ngOnChanges(changes: SimpleChanges): void {
+    super.ngOnChanges(toNgChanges(changes, 'typedFormGroup'));
+  }
+}
+
+/**
+ * @description
+ * Binds a standalone `TypedFormControl` to a form control element, in the same way as the Angular
+ * `FormControlDirective` does for a `FormControl`.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input [typedFormControl]="name" #n="typedFormControl">
+ * <span *ngIf="n.typedControl.hasError('required')">Name is required</span>
+ * ```
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: '[typedFormControl]',
+  providers: [{ provide: NgControl, useExisting: forwardRef(() => TypedFormControlDirective) }],
+  exportAs: 'typedFormControl'
+})
+export class TypedFormControlDirective<C extends TypedFormControl<any, any> = TypedFormControl<any, any>>
+  extends FormControlDirective implements OnChanges, OnDestroy {
+  private _validatedControl: C | null = null;
+
+  /** @internal */
+  readonly _typedValidators: TypedValidatorDirective[] = [];
+
+  /**
+   * @description
+   * Tracks the `TypedFormControl` bound to this directive.
+   */
+  typedControl!: C;
+
+  @Input()
+  set typedFormControl(control: C) {
+    this.typedControl = control;
+    this.form = control.ng;
+  }
+
+  /** @nodoc */
+  ngOnChanges(changes: SimpleChanges): void {
+    super.ngOnChanges(toNgChanges(changes, 'typedFormControl'));
+    bindTypedValidators(this._validatedControl, this.typedControl, this._typedValidators);
+    this._validatedControl = this.typedControl;
+  }
+
+  /** @nodoc */
+  ngOnDestroy(): void {
+    super.ngOnDestroy();
+    bindTypedValidators(this._validatedControl, null, this._typedValidators);
+    this._validatedControl = null;
+  }
+}
+
+/**
+ * @description
+ * Syncs a `TypedFormControl` in a parent typed group or array to a form control element, in the
+ * same way as the Angular `FormControlName` does.
+ *
+ * The control can be given by its name, or as the control itself so the binding is type checked:
+ *
+ * ```html
+ * <form [typedFormGroup]="form">
+ *   <input [typedFormControlName]="form.controls.name">
+ *   <input typedFormControlName="age">
+ * </form>
+ * ```
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: '[typedFormControlName]',
+  providers: [{ provide: NgControl, useExisting: forwardRef(() => TypedFormControlNameDirective) }],
+  exportAs: 'typedFormControlName'
+})
+export class TypedFormControlNameDirective<C extends TypedFormControl<any, any> = TypedFormControl<any, any>>
+  extends FormControlName implements OnChanges, OnDestroy {
+  private _typedControl: C | null = null;
+  private _validatedControl: C | null = null;
+
+  /** @internal */
+  readonly _typedValidators: TypedValidatorDirective[] = [];
+
+  @Input()
+  set typedFormControlName(nameOrControl: string | number | C) {
+    this._typedControl = nameOrControl instanceof AbstractTypedControl ? nameOrControl : null;
+    this.name = nameOf(nameOrControl);
+  }
+
+  /**
+   * @description
+   * The `TypedFormControl` synced by this directive.
+   */
+  get typedControl(): C {
+    return this._typedControl ?? findTyped(this, 'typedFormControlName') as C;
+  }
+
+  /** @nodoc */
+  ngOnChanges(changes: SimpleChanges): void {
+    super.ngOnChanges(changes);
+    bindTypedValidators(this._validatedControl, this.typedControl, this._typedValidators);
+    this._validatedControl = this.typedControl;
+  }
+
+  /** @nodoc */
+  ngOnDestroy(): void {
+    super.ngOnDestroy();
+    bindTypedValidators(this._validatedControl, null, this._typedValidators);
+    this._validatedControl = null;
+  }
+}
+
+/**
+ * @description
+ * Syncs a nested `TypedFormArray` to a DOM element, in the same way as the Angular
+ * `FormArrayName` does. The array can be given by its name, or as the array itself.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: '[typedFormArrayName]',
+  providers: [{ provide: ControlContainer, useExisting: forwardRef(() => TypedFormArrayNameDirective) }],
+  exportAs: 'typedFormArrayName'
+})
+export class TypedFormArrayNameDirective<A extends TypedFormArray<any, any> = TypedFormArray<any, any>>
+  extends FormArrayName {
+  private _typedControl: A | null = null;
+
+  @Input()
+  set typedFormArrayName(nameOrControl: string | number | A) {
+    this._typedControl = nameOrControl instanceof AbstractTypedControl ? nameOrControl : null;
+    this.name = nameOf(nameOrControl);
+  }
+
+  /**
+   * @description
+   * The `TypedFormArray` synced by this directive.
+   */
+  get typedControl(): A {
+    return this._typedControl ?? findTyped(this, 'typedFormArrayName') as A;
+  }
+}
+
+/**
+ * @description
+ * Syncs a nested `TypedFormDictionary` to a DOM element, in the same way as the Angular
+ * `FormGroupName` does. The dictionary can be given by its name, or as the dictionary itself.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: '[typedFormDictionaryName]',
+  providers: [{ provide: ControlContainer, useExisting: forwardRef(() => TypedFormDictionaryNameDirective) }],
+  exportAs: 'typedFormDictionaryName'
+})
+export class TypedFormDictionaryNameDirective<D extends TypedFormDictionary<any, any, any> = TypedFormDictionary<any, any, any>>
+  extends FormGroupName {
+  private _typedControl: D | null = null;
+
+  @Input()
+  set typedFormDictionaryName(nameOrControl: string | number | D) {
+    this._typedControl = nameOrControl instanceof AbstractTypedControl ? nameOrControl : null;
+    this.name = nameOf(nameOrControl);
+  }
+
+  /**
+   * @description
+   * The `TypedFormDictionary` synced by this directive.
+   */
+  get typedControl(): D {
+    return this._typedControl ?? findTyped(this, 'typedFormDictionaryName') as D;
+  }
+}
+
+/**
+ * @description
+ * Syncs a nested `TypedFormGroup` to a DOM element, in the same way as the Angular
+ * `FormGroupName` does. The group can be given by its name, or as the group itself.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: '[typedFormGroupName]',
+  providers: [{ provide: ControlContainer, useExisting: forwardRef(() => TypedFormGroupNameDirective) }],
+  exportAs: 'typedFormGroupName'
+})
+export class TypedFormGroupNameDirective<G extends TypedFormGroup<any, any> = TypedFormGroup<any, any>>
+  extends FormGroupName {
+  private _typedControl: G | null = null;
+
+  @Input()
+  set typedFormGroupName(nameOrControl: string | number | G) {
+    this._typedControl = nameOrControl instanceof AbstractTypedControl ? nameOrControl : null;
+    this.name = nameOf(nameOrControl);
+  }
+
+  /**
+   * @description
+   * The `TypedFormGroup` synced by this directive.
+   */
+  get typedControl(): G {
+    return this._typedControl ?? findTyped(this, 'typedFormGroupName') as G;
+  }
+}
@@ -0,0 +1,252 @@
+import { Directive, Input, OnChanges, Self, SimpleChanges } from '@angular/core';
+import { NgControl, ValidationErrors } from '@angular/forms';
+
+import { TypedFormControl } from '../models';
+import { TypedValidators } from '../validators';
+import { TypedFormControlDirective, TypedFormControlNameDirective, TypedValidatorDirective } from './reactive-directives';
+import { TypedValidator, TypedValidatorFn } from './validators';
+
+/*
+ * The Angular validator directives are provided as `NG_VALIDATORS`, which Angular adds to the
+ * Angular control only, so the typed control never sees them. These directives register with the
+ * typed control directive on the same element instead, which adds their validators to its typed
+ * control, where they are listed along with the validators given in code, and registers for the
+ * changes of their inputs in the same way as Angular does for `NG_VALIDATORS`.
+ */
+
+/**
+ * Gets the typed control directive on the same element.
+ */
+function typedDirectiveOf(host: NgControl): TypedFormControlDirective | TypedFormControlNameDirective {
+  if (host instanceof TypedFormControlDirective || host instanceof TypedFormControlNameDirective) {
+    return host;
+  }
+
+  throw new Error('Typed validator directives must be used with typedFormControl or typedFormControlName.');
+}
+
+function toBoolean(input: boolean | string | null | undefined): boolean {
+  return input != null && input !== false && `${input}` !== 'false';
+}
+
+function toFloat(input: number | string): number {
+  return typeof input === 'number' ? input : parseFloat(input);
+}
+
+/**
+ * @description
+ * The base of the directives that add a validator to a typed control while an input is set, and
+ * replace it whenever the input changes.
+ */
+@Directive()
+abstract class AbstractTypedValidatorDirective<E extends ValidationErrors>
+  implements TypedValidator<TypedFormControl<any, any>, E>, TypedValidatorDirective, OnChanges {
+  private _validator: TypedValidatorFn<TypedFormControl<any, any>, E> | null = null;
+  private _onChange: (() => void) | null = null;
+
+  /** @internal */
+  abstract readonly inputName: string;
+
+  /**
+   * Creates the validator for the value of the input, or `null` when the input disables it.
+   *
+   * @internal
+   */
+  abstract createValidator(input: any): TypedValidatorFn<TypedFormControl<any, any>, E> | null;
+
+  constructor(@Self() host: NgControl) {
+    typedDirectiveOf(host)._typedValidators.push(this);
+  }
+
+  /**
+   * @description
+   * The validator that this directive adds to the typed control, or `null` when its input disables
+   * it.
+   */
+  get validator(): TypedValidatorFn<TypedFormControl<any, any>, E> | null { return this._validator; }
+
+  /** @nodoc */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes.hasOwnProperty(this.inputName)) {
+      this._validator = this.createValidator(changes[this.inputName].currentValue);
+      if (this._onChange) this._onChange();
+    }
+  }
+
+  /** @nodoc */
+  validate(control: TypedFormControl<any, any>): E | null {
+    return this._validator ? this._validator(control) : null;
+  }
+
+  /** @nodoc */
+  registerOnValidatorChange(fn: () => void): void {
+    this._onChange = fn;
+  }
+}
+
+/**
+ * @description
+ * Adds `TypedValidators.required` to a typed control while the `required` attribute is set, in
+ * the same way as the Angular `RequiredValidator` does for an Angular control.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input typedFormControlName="name" [required]="nameRequired">
+ * ```
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: ':not([type=checkbox])[required][typedFormControlName],:not([type=checkbox])[required][typedFormControl]',
+  host: { '[attr.required]': 'validator ? "" : null' }
+})
+export class TypedRequiredValidator extends AbstractTypedValidatorDirective<{ required: true }> {
+  /** @internal */
+  readonly inputName = 'required';
+
+  /**
+   * @description
+   * Tracks changes to the required attribute bound to this directive.
+   */
+  @Input() required!: boolean | string;
+
+  /** @internal */
+  createValidator(input: boolean | string): TypedValidatorFn<TypedFormControl<any, any>, { required: true }> | null {
+    return toBoolean(input) ? TypedValidators.required : null;
+  }
+}
+
+/**
+ * @description
+ * Adds `TypedValidators.requiredTrue` to a typed checkbox while the `required` attribute is set,
+ * in the same way as the Angular `CheckboxRequiredValidator` does for an Angular control.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: 'input[type=checkbox][required][typedFormControlName],input[type=checkbox][required][typedFormControl]',
+  host: { '[attr.required]': 'validator ? "" : null' }
+})
+export class TypedCheckboxRequiredValidator extends TypedRequiredValidator {
+  /** @internal */
+  createValidator(input: boolean | string): TypedValidatorFn<TypedFormControl<any, any>, { required: true }> | null {
+    return toBoolean(input) ? TypedValidators.requiredTrue : null;
+  }
+}
+
+/**
+ * @description
+ * Adds `TypedValidators.min` to a typed number input while the `min` attribute is set, in the same
+ * way as the Angular `MinValidator` does for an Angular control.
+ *
+ * @usageNotes
+ *
+ * ```html
+ * <input type="number" typedFormControlName="age" [min]="minimumAge">
+ * ```
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: 'input[type=number][min][typedFormControlName],input[type=number][min][typedFormControl]',
+  host: { '[attr.min]': 'validator ? min : null' }
+})
+export class TypedMinValidator extends AbstractTypedValidatorDirective<{ min: { min: number, actual: number } }> {
+  /** @internal */
+  readonly inputName = 'min';
+
+  /**
+   * @description
+   * Tracks changes to the min bound to this directive.
+   */
+  @Input() min!: number | string | null;
+
+  /** @internal */
+  createValidator(input: number | string | null) {
+    return input != null ? TypedValidators.min(toFloat(input)) : null;
+  }
+}
+
+/**
+ * @description
+ * Adds `TypedValidators.max` to a typed number input while the `max` attribute is set, in the same
+ * way as the Angular `MaxValidator` does for an Angular control.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: 'input[type=number][max][typedFormControlName],input[type=number][max][typedFormControl]',
+  host: { '[attr.max]': 'validator ? max : null' }
+})
+export class TypedMaxValidator extends AbstractTypedValidatorDirective<{ max: { max: number, actual: number } }> {
+  /** @internal */
+  readonly inputName = 'max';
+
+  /**
+   * @description
+   * Tracks changes to the max bound to this directive.
+   */
+  @Input() max!: number | string | null;
+
+  /** @internal */
+  createValidator(input: number | string | null) {
+    return input != null ? TypedValidators.max(toFloat(input)) : null;
+  }
+}
+
+/**
+ * @description
+ * Adds `TypedValidators.minLength` to a typed control while the `minlength` attribute is set, in
+ * the same way as the Angular `MinLengthValidator` does for an Angular control.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: '[minlength][typedFormControlName],[minlength][typedFormControl]',
+  host: { '[attr.minlength]': 'validator ? minlength : null' }
+})
+export class TypedMinLengthValidator
+  extends AbstractTypedValidatorDirective<{ minlength: { requiredLength: number, actualLength: number } }> {
+  /** @internal */
+  readonly inputName = 'minlength';
+
+  /**
+   * @description
+   * Tracks changes to the minimum length bound to this directive.
+   */
+  @Input() minlength!: number | string | null;
+
+  /** @internal */
+  createValidator(input: number | string | null) {
+    return input != null ? TypedValidators.minLength(typeof input === 'number' ? input : parseInt(input, 10)) : null;
+  }
+}
+
+/**
+ * @description
+ * Adds `TypedValidators.pattern` to a typed control while the `pattern` attribute is set, in the
+ * same way as the Angular `PatternValidator` does for an Angular control.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: '[pattern][typedFormControlName],[pattern][typedFormControl]',
+  host: { '[attr.pattern]': 'validator ? pattern : null' }
+})
+export class TypedPatternValidator
+  extends AbstractTypedValidatorDirective<{ pattern: { requiredPattern: string, actualValue: any } }> {
+  /** @internal */
+  readonly inputName = 'pattern';
+
+  /**
+   * @description
+   * Tracks changes to the pattern bound to this directive.
+   */
+  @Input() pattern!: string | RegExp | null;
+
+  /** @internal */
+  createValidator(input: string | RegExp | null) {
+    return input != null ? TypedValidators.pattern(input) : null;
+  }
+}
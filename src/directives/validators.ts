@@ -28,7 +28,7 @@ import { AbstractTypedControl } from '../models';
  *
  * @publicApi
  */
-export interface TypedValidator<T extends AbstractTypedControl> {
+export interface TypedValidator<T extends AbstractTypedControl, E extends ValidationErrors = ValidationErrors> {
   /**
    * @description
    * Method that performs synchronous validation against the provided control.
@@ -38,7 +38,7 @@ export interface TypedValidator<T extends AbstractTypedControl> {
    * @returns A map of validation errors if validation fails,
    * otherwise null.
    */
-  validate(control: T): ValidationErrors|null;
+  validate(control: T): E|null;
 
   /**
    * @description
@@ -77,7 +77,8 @@ export interface TypedValidator<T extends AbstractTypedControl> {
  *
  * @publicApi
  */
-export interface TypedAsyncValidator<T extends AbstractTypedControl> extends TypedValidator<T> {
+export interface TypedAsyncValidator<T extends AbstractTypedControl, E extends ValidationErrors = ValidationErrors>
+  extends TypedValidator<T> {
   /**
    * @description
    * Method that performs async validation against the provided control.
@@ -87,7 +88,7 @@ export interface TypedAsyncValidator<T extends AbstractTypedControl> extends Typ
    * @returns A promise or observable that resolves a map of validation errors
    * if validation fails, otherwise null.
    */
-  validate(control: T): Promise<ValidationErrors|null>|Observable<ValidationErrors|null>;
+  validate(control: T): Promise<E|null>|Observable<E|null>;
 }
 
 /**
@@ -97,8 +98,20 @@ export interface TypedAsyncValidator<T extends AbstractTypedControl> extends Typ
  *
  * @publicApi
  */
-export interface TypedValidatorFn<T extends AbstractTypedControl> {
-  (control: T): ValidationErrors | null;
+export interface TypedValidatorFn<T extends AbstractTypedControl, E extends ValidationErrors = ValidationErrors> {
+  (control: T): E | null;
+}
+
+/**
+ * @description
+ * A validator function of any group that has controls with the names `K`, such as a validator
+ * that compares the fields of a `TypedFormGroup`. The names are checked against the group when the
+ * validator is given to it.
+ *
+ * @publicApi
+ */
+export interface TypedGroupValidatorFn<K extends string, E extends ValidationErrors = ValidationErrors> {
+  <C extends { controls: { [P in K]: AbstractTypedControl } }>(control: C): E | null;
 }
 
 /**
@@ -108,6 +121,37 @@ export interface TypedValidatorFn<T extends AbstractTypedControl> {
  *
  * @publicApi
  */
-export interface TypedAsyncValidatorFn<T extends AbstractTypedControl> {
-  (control: T): Promise<ValidationErrors | null> | Observable<ValidationErrors | null>;
+export interface TypedAsyncValidatorFn<T extends AbstractTypedControl, E extends ValidationErrors = ValidationErrors> {
+  (control: T): Promise<E | null> | Observable<E | null>;
 }
+
+/**
+ * @description
+ * The error map produced by a validator function, validator class or an array of them.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * type MinErrors = ValidatorErrors<ReturnType<typeof TypedValidators.min>>;
+ * // { min: { min: number; actual: number } }
+ * ```
+ *
+ * @publicApi
+ */
+export type ValidatorErrors<V> =
+  V extends Array<infer U> ? ValidatorErrors<U>
+  : V extends TypedValidatorFn<any, infer E> ? E
+  : V extends TypedAsyncValidatorFn<any, infer E> ? E
+  : V extends TypedValidator<any, infer E> ? E
+  : never;
+
+type UnionToIntersection<U> = (U extends any ? (u: U) => void : never) extends (i: infer I) => void ? I : never;
+
+/**
+ * @description
+ * The `errors` of a control given the union of the error maps of its validators. Every key is
+ * optional, as any one of the validators may have passed.
+ *
+ * @publicApi
+ */
+export type TypedValidationErrors<E extends ValidationErrors> = Partial<UnionToIntersection<E>>;
@@ -0,0 +1,289 @@
+import { Directive, HostListener, Input, OnInit, Provider, Self, Type } from '@angular/core';
+import {
+  CheckboxControlValueAccessor, ControlValueAccessor, DefaultValueAccessor, NG_VALUE_ACCESSOR, NgControlStatus,
+  NgControlStatusGroup, NumberValueAccessor, RadioControlValueAccessor, RangeValueAccessor, SelectControlValueAccessor,
+  SelectMultipleControlValueAccessor
+} from '@angular/forms';
+
+import { AbstractTypedControl } from '../models';
+
+/*
+ * Angular picks the value accessor of a control by the attributes of its element, and the selectors
+ * of its built-in accessors only match its own directives. Rather than extending them, which would
+ * make Angular treat them as custom accessors that clash with any other custom accessor on the
+ * element, each directive here provides the built-in accessor itself on the element of a typed
+ * directive, and forwards the events of the element to it. A custom accessor on the same element,
+ * such as the one of a datepicker, then takes precedence over it as it does in Angular.
+ */
+
+/**
+ * The handlers of the `DefaultValueAccessor` that are called by its host listeners.
+ */
+interface DefaultValueAccessorHandlers {
+  _handleInput(value: any): void;
+  _compositionStart(): void;
+  _compositionEnd(value: any): void;
+}
+
+/**
+ * Provides a built-in accessor on the element of a directive, as its value accessor.
+ */
+function provideBuiltIn(accessor: Type<ControlValueAccessor>): Provider[] {
+  return [accessor, { provide: NG_VALUE_ACCESSOR, useExisting: accessor, multi: true }];
+}
+
+/**
+ * @description
+ * Sets up the `DefaultValueAccessor` for text inputs and textareas bound with a typed directive.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector:
+    'input:not([type=checkbox]):not([type=number]):not([type=radio]):not([type=range])[typedFormControlName],' +
+    'textarea[typedFormControlName],' +
+    'input:not([type=checkbox]):not([type=number]):not([type=radio]):not([type=range])[typedFormControl],' +
+    'textarea[typedFormControl]',
+  providers: provideBuiltIn(DefaultValueAccessor)
+})
+export class TypedDefaultValueAccessor {
+  constructor(@Self() readonly accessor: DefaultValueAccessor) {}
+
+  /** @nodoc */
+  @HostListener('input', ['$event.target.value'])
+  onInput(value: any): void {
+    (this.accessor as unknown as DefaultValueAccessorHandlers)._handleInput(value);
+  }
+
+  /** @nodoc */
+  @HostListener('blur')
+  onBlur(): void {
+    this.accessor.onTouched();
+  }
+
+  /** @nodoc */
+  @HostListener('compositionstart')
+  onCompositionStart(): void {
+    (this.accessor as unknown as DefaultValueAccessorHandlers)._compositionStart();
+  }
+
+  /** @nodoc */
+  @HostListener('compositionend', ['$event.target.value'])
+  onCompositionEnd(value: any): void {
+    (this.accessor as unknown as DefaultValueAccessorHandlers)._compositionEnd(value);
+  }
+}
+
+/**
+ * @description
+ * Sets up the `CheckboxControlValueAccessor` for checkboxes bound with a typed directive.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: 'input[type=checkbox][typedFormControlName],input[type=checkbox][typedFormControl]',
+  providers: provideBuiltIn(CheckboxControlValueAccessor)
+})
+export class TypedCheckboxControlValueAccessor {
+  constructor(@Self() readonly accessor: CheckboxControlValueAccessor) {}
+
+  /** @nodoc */
+  @HostListener('change', ['$event.target.checked'])
+  onChange(checked: boolean): void {
+    this.accessor.onChange(checked);
+  }
+
+  /** @nodoc */
+  @HostListener('blur')
+  onBlur(): void {
+    this.accessor.onTouched();
+  }
+}
+
+/**
+ * @description
+ * Sets up the `NumberValueAccessor` for number inputs bound with a typed directive.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: 'input[type=number][typedFormControlName],input[type=number][typedFormControl]',
+  providers: provideBuiltIn(NumberValueAccessor)
+})
+export class TypedNumberValueAccessor {
+  constructor(@Self() readonly accessor: NumberValueAccessor) {}
+
+  /** @nodoc */
+  @HostListener('input', ['$event.target.value'])
+  onInput(value: string): void {
+    this.accessor.onChange(value);
+  }
+
+  /** @nodoc */
+  @HostListener('blur')
+  onBlur(): void {
+    this.accessor.onTouched();
+  }
+}
+
+/**
+ * @description
+ * Sets up the `RangeValueAccessor` for range inputs bound with a typed directive.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: 'input[type=range][typedFormControlName],input[type=range][typedFormControl]',
+  providers: provideBuiltIn(RangeValueAccessor)
+})
+export class TypedRangeValueAccessor {
+  constructor(@Self() readonly accessor: RangeValueAccessor) {}
+
+  /** @nodoc */
+  @HostListener('change', ['$event.target.value'])
+  @HostListener('input', ['$event.target.value'])
+  onInput(value: string): void {
+    this.accessor.onChange(value);
+  }
+
+  /** @nodoc */
+  @HostListener('blur')
+  onBlur(): void {
+    this.accessor.onTouched();
+  }
+}
+
+/**
+ * @description
+ * Sets up the `RadioControlValueAccessor` for radio buttons bound with a typed directive. The name
+ * of the radio button defaults to the name of the control.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: 'input[type=radio][typedFormControlName],input[type=radio][typedFormControl]',
+  providers: provideBuiltIn(RadioControlValueAccessor)
+})
+export class TypedRadioControlValueAccessor implements OnInit {
+  constructor(@Self() readonly accessor: RadioControlValueAccessor) {}
+
+  @Input()
+  set name(name: string) {
+    this.accessor.name = name;
+  }
+
+  @Input()
+  set value(value: any) {
+    this.accessor.value = value;
+  }
+
+  @Input()
+  set typedFormControlName(nameOrControl: string | number | AbstractTypedControl) {
+    if (!(nameOrControl instanceof AbstractTypedControl)) {
+      this.accessor.formControlName = String(nameOrControl);
+    }
+  }
+
+  /** @nodoc */
+  ngOnInit(): void {
+    this.accessor.ngOnInit();
+  }
+
+  /** @nodoc */
+  @HostListener('change')
+  onChange(): void {
+    this.accessor.onChange();
+  }
+
+  /** @nodoc */
+  @HostListener('blur')
+  onBlur(): void {
+    this.accessor.onTouched();
+  }
+}
+
+/**
+ * @description
+ * Sets up the `SelectControlValueAccessor` for selects bound with a typed directive.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: 'select:not([multiple])[typedFormControlName],select:not([multiple])[typedFormControl]',
+  providers: provideBuiltIn(SelectControlValueAccessor)
+})
+export class TypedSelectControlValueAccessor {
+  constructor(@Self() readonly accessor: SelectControlValueAccessor) {}
+
+  @Input()
+  set compareWith(fn: (o1: any, o2: any) => boolean) {
+    this.accessor.compareWith = fn;
+  }
+
+  /** @nodoc */
+  @HostListener('change', ['$event.target.value'])
+  onChange(value: string): void {
+    this.accessor.onChange(value);
+  }
+
+  /** @nodoc */
+  @HostListener('blur')
+  onBlur(): void {
+    this.accessor.onTouched();
+  }
+}
+
+/**
+ * @description
+ * Sets up the `SelectMultipleControlValueAccessor` for multiple selects bound with a typed
+ * directive.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: 'select[multiple][typedFormControlName],select[multiple][typedFormControl]',
+  providers: provideBuiltIn(SelectMultipleControlValueAccessor)
+})
+export class TypedSelectMultipleControlValueAccessor {
+  constructor(@Self() readonly accessor: SelectMultipleControlValueAccessor) {}
+
+  @Input()
+  set compareWith(fn: (o1: any, o2: any) => boolean) {
+    this.accessor.compareWith = fn;
+  }
+
+  /** @nodoc */
+  @HostListener('change', ['$event.target'])
+  onChange(select: any): void {
+    this.accessor.onChange(select);
+  }
+
+  /** @nodoc */
+  @HostListener('blur')
+  onBlur(): void {
+    this.accessor.onTouched();
+  }
+}
+
+/**
+ * @description
+ * Sets the same CSS classes as `NgControlStatus` on controls bound with a typed directive.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: '[typedFormControlName],[typedFormControl]'
+})
+export class TypedControlStatus extends NgControlStatus {}
+
+/**
+ * @description
+ * Sets the same CSS classes as `NgControlStatusGroup` on groups, arrays and dictionaries bound with a
+ * typed directive.
+ *
+ * @publicApi
+ */
+@Directive({
+  selector: '[typedFormGroup],[typedFormGroupName],[typedFormArrayName],[typedFormDictionaryName]'
+})
+export class TypedControlStatusGroup extends NgControlStatusGroup {}
@@ -0,0 +1,274 @@
+import { Subscription } from 'rxjs';
+import { debounceTime, tap } from 'rxjs/operators';
+
+import {
+  AbstractTypedControl, matchItemsTo, TypedFormArray, TypedFormControl, TypedFormDictionary, TypedFormGroup, TypedFormUnion,
+  ValuePathString, ValueType
+} from './models';
+
+/**
+ * @description
+ * The storage that drafts are saved to. This is a subset of the Web Storage API, so `localStorage`
+ * and `sessionStorage` can be used as they are.
+ *
+ * @publicApi
+ */
+export interface DraftStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * @description
+ * A `DraftStorage` that keeps drafts in memory, for tests and for platforms without Web Storage.
+ *
+ * @publicApi
+ */
+export class MemoryDraftStorage implements DraftStorage {
+  private _items = new Map<string, string>();
+
+  getItem(key: string): string | null { return this._items.get(key) ?? null; }
+  setItem(key: string, value: string): void { this._items.set(key, value); }
+  removeItem(key: string): void { this._items.delete(key); }
+}
+
+/**
+ * @description
+ * Configuration options for a `TypedFormDraft`.
+ *
+ * @publicApi
+ */
+export interface DraftOptions<C extends AbstractTypedControl> {
+  /**
+   * The key that the draft is saved under.
+   */
+  key: string;
+  /**
+   * The storage that the draft is saved to, `localStorage` by default.
+   */
+  storage?: DraftStorage;
+  /**
+   * The version of the shape of the form, which is saved with the draft. Defaults to 1.
+   */
+  version?: number;
+  /**
+   * Migrates the value of a draft saved by an older version of the form, by the version that each
+   * function migrates from. A draft that cannot be migrated to the current version is discarded.
+   */
+  migrations?: { [fromVersion: number]: (value: any) => any };
+  /**
+   * The paths of values that are never saved, such as passwords.
+   */
+  exclude?: Array<unknown extends ValueType<C> ? string : ValuePathString<ValueType<C>>>;
+  /**
+   * How long to wait after the last change of the form before saving it, in milliseconds. Defaults
+   * to 500.
+   */
+  debounceTime?: number;
+  /**
+   * Creates the array items and dictionary entries that a draft has but the form does not. Arrays
+   * with an `itemFactory` and dictionaries with an `entryFactory` use them by default.
+   */
+  createControl?: (parent: AbstractTypedControl, key: string | number, value: unknown) => AbstractTypedControl;
+}
+
+interface SavedDraft {
+  version: number;
+  value: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function removePath(value: unknown, path: string[]): void {
+  const [key, ...rest] = path;
+  if (!isObject(value) && !Array.isArray(value)) return;
+
+  const record = value as Record<string, unknown>;
+  if (rest.length) {
+    removePath(record[key], rest);
+  } else {
+    delete record[key];
+  }
+}
+
+/**
+ * Copies the value at a path of the form into a draft, so that restoring the draft keeps the
+ * controls of excluded paths as they are.
+ */
+function copyPath(from: unknown, to: unknown, path: string[]): void {
+  const [key, ...rest] = path;
+  if ((!isObject(from) && !Array.isArray(from)) || (!isObject(to) && !Array.isArray(to))) return;
+
+  const source = from as Record<string, unknown>;
+  const target = to as Record<string, unknown>;
+  if (!source.hasOwnProperty(key)) return;
+  if (rest.length) {
+    copyPath(source[key], target[key], rest);
+  } else {
+    target[key] = source[key];
+  }
+}
+
+/**
+ * Checks that a draft has the structure of the form, that the missing array items and dictionary
+ * entries can be created, and that its values have the types of the current values of the
+ * controls, before any of it is restored. Controls whose value is `null` accept any value.
+ */
+function matchesControl(control: AbstractTypedControl, value: unknown, canCreate: boolean): boolean {
+  if (value === undefined) return true;
+
+  if (control instanceof TypedFormControl) {
+    const current = control.value;
+    return value === null || current == null ||
+      (typeof value === typeof current && Array.isArray(value) === Array.isArray(current) && !(current instanceof Date));
+  }
+
+  if (control instanceof TypedFormArray) {
+    return Array.isArray(value) && (value.length <= control.length || canCreate || !!control.itemFactory) &&
+      value.every((item, i) => i >= control.length || matchesControl(control.at(i), item, canCreate));
+  }
+  if (!isObject(value)) return false;
+  if (control instanceof TypedFormDictionary) {
+    return Object.keys(value).every(key => control.contains(key)
+      ? matchesControl(control.controls[key], value[key], canCreate)
+      : canCreate || !!control.entryFactory);
+  }
+
+  const controls: Record<string, AbstractTypedControl> = control instanceof TypedFormUnion
+    ? Object.assign({}, ...Object.values(control.variants as Record<string, {}>), control.controls)
+    : (control as TypedFormGroup<any, any>).controls;
+  return Object.keys(value)
+    .every(key => !controls.hasOwnProperty(key) || matchesControl(controls[key], value[key], canCreate));
+}
+
+/**
+ * @description
+ * Saves the value of a form as a draft whenever it changes, and restores the draft when the form is
+ * created again, for example after the page is reloaded. A draft that does not have the structure
+ * of the form, or whose values do not have the types of the current values of the controls, is
+ * discarded. The controls of excluded paths keep their values when a draft is restored.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * const draft = new TypedFormDraft(form, {
+ *   key: 'sign-up',
+ *   version: 2,
+ *   migrations: { 1: value => ({ ...value, name: value.firstName + ' ' + value.lastName }) },
+ *   exclude: ['password']
+ * });
+ *
+ * // once the form has been submitted
+ * draft.clear();
+ * ```
+ *
+ * @publicApi
+ */
+export class TypedFormDraft<C extends TypedFormGroup<any, any> | TypedFormDictionary<any, any, any>> {
+  private _storage: DraftStorage;
+  private _version: number;
+  private _subscription: Subscription;
+  private _pending = false;
+  private _restored = false;
+
+  /**
+   * Creates a draft of a form, and restores the form from the last draft saved under the same key.
+   *
+   * @param control The form to save drafts of.
+   *
+   * @param opts Configuration options that determine how the draft is saved and restored.
+   */
+  constructor(readonly control: C, private readonly opts: DraftOptions<C>) {
+    if (!opts.storage && typeof localStorage === 'undefined') {
+      throw new Error('localStorage is not available, a storage must be given for the draft.');
+    }
+
+    this._storage = opts.storage ?? localStorage;
+    this._version = opts.version ?? 1;
+
+    this._restore();
+
+    this._subscription = control.ng.valueChanges.pipe(
+      tap(() => this._pending = true),
+      debounceTime(opts.debounceTime ?? 500)
+    ).subscribe(() => this.save());
+  }
+
+  /**
+   * Whether the form was restored from a draft when it was created.
+   */
+  get restored(): boolean { return this._restored; }
+
+  /**
+   * Reads the saved draft, migrated to the current version, or `null` when there is no draft that
+   * can be migrated. The draft is not checked against the structure of the form.
+   */
+  read(): ValueType<C> | null {
+    const saved = this._storage.getItem(this.opts.key);
+    if (saved === null) return null;
+
+    try {
+      const draft: SavedDraft = JSON.parse(saved);
+      let { version, value } = draft;
+      if (typeof version !== 'number' || version > this._version) return null;
+
+      for (; version < this._version; version++) {
+        const migrate = this.opts.migrations?.[version];
+        if (!migrate) return null;
+        value = migrate(value);
+      }
+
+      return value as ValueType<C>;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Saves the value of the form straight away, without the values of excluded paths.
+   */
+  save(): void {
+    this._pending = false;
+
+    const value = JSON.parse(JSON.stringify(this.control.getRawValue()));
+    (this.opts.exclude ?? []).forEach((path: string) => removePath(value, path.split('.')));
+
+    const draft: SavedDraft = { version: this._version, value };
+    this._storage.setItem(this.opts.key, JSON.stringify(draft));
+  }
+
+  /**
+   * Removes the saved draft, for example once the form has been submitted. Changes made to the form
+   * afterwards are saved again.
+   */
+  clear(): void {
+    this._pending = false;
+    this._storage.removeItem(this.opts.key);
+  }
+
+  /**
+   * Stops saving drafts of the form, saving any change that is still waiting for the debounce time.
+   */
+  destroy(): void {
+    this._subscription.unsubscribe();
+    if (this._pending) this.save();
+  }
+
+  private _restore(): void {
+    const value = this.read();
+    if (value === null || !matchesControl(this.control, value, !!this.opts.createControl)) {
+      this._storage.removeItem(this.opts.key);
+      return;
+    }
+
+    const current = this.control.getRawValue();
+    (this.opts.exclude ?? []).forEach((path: string) => copyPath(current, value, path.split('.')));
+
+    matchItemsTo(this.control, value, { matchAll: true, createControl: this.opts.createControl });
+    this.control.patchValue(value);
+    this._restored = true;
+  }
+}
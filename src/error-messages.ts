@@ -0,0 +1,245 @@
+import { Inject, Injectable, InjectionToken, LOCALE_ID, Optional, Provider } from '@angular/core';
+import { ValidationErrors } from '@angular/forms';
+import { Observable, Subject } from 'rxjs';
+
+import { AbstractTypedControl } from './models';
+import { FieldComparison } from './validators';
+
+/**
+ * @description
+ * The message of an error, either a template in which `{name}` is replaced by the `name` property
+ * of the error, or a function of the error and the control that has it.
+ *
+ * @publicApi
+ */
+export type ErrorMessage<P = any> = string | ((error: P, control: AbstractTypedControl) => string);
+
+/**
+ * @description
+ * The errors set by `TypedValidators`, and by `applyServerErrors`, by their keys.
+ *
+ * @publicApi
+ */
+export interface TypedValidatorErrors {
+  required: true;
+  min: { min: number, actual: number };
+  max: { max: number, actual: number };
+  email: true;
+  minlength: { requiredLength: number, actualLength: number };
+  maxlength: { requiredLength: number, actualLength: number };
+  pattern: { requiredPattern: string, actualValue: any };
+  allowedValues: { allowed: any[], actual: any };
+  minItems: { min: number, actual: number };
+  maxItems: { max: number, actual: number };
+  uniqueItems: { duplicates: number[] };
+  uniqueBy: { duplicates: number[] };
+  duplicate: { index: number };
+  every: { invalid: Array<number | string> };
+  some: true;
+  keyPattern: { requiredPattern: string, invalidKeys: string[] };
+  maxKeys: { max: number, actual: number };
+  minKeys: { min: number, actual: number };
+  requiredKeys: { missingKeys: string[] };
+  equalFields: { field: string, other: string };
+  compareFields: { field: string, operator: FieldComparison, other: string };
+  atLeastOne: { fields: string[] };
+  server: Record<string, string | true>;
+}
+
+/**
+ * @description
+ * The messages of errors by their keys. The messages of the errors of `TypedValidators` are
+ * called with their typed error.
+ *
+ * @publicApi
+ */
+export type ErrorMessages =
+  { [K in keyof TypedValidatorErrors]?: ErrorMessage<TypedValidatorErrors[K]> } &
+  { [key: string]: ErrorMessage | undefined };
+
+/**
+ * @description
+ * Error messages provided with `TYPED_ERROR_MESSAGES`, for every locale or for only one.
+ *
+ * @publicApi
+ */
+export interface LocalizedErrorMessages {
+  messages: ErrorMessages;
+  /**
+   * The locale that the messages are for, such as `fr` or `fr-CA`. Messages for a language apply
+   * to all of its regions. Messages without a locale apply to every locale.
+   */
+  locale?: string;
+}
+
+/**
+ * @description
+ * Provides error messages to the `ErrorMessageRegistry`. Messages provided later replace those
+ * provided earlier, and messages for the current locale replace those without a locale.
+ *
+ * @publicApi
+ */
+export const TYPED_ERROR_MESSAGES = new InjectionToken<LocalizedErrorMessages[]>('TypedErrorMessages');
+
+/**
+ * @description
+ * Provides error messages, for every locale or for only one.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * @NgModule({
+ *   providers: [
+ *     provideErrorMessages({ required: 'Please fill this in' }),
+ *     provideErrorMessages({ required: 'Champ obligatoire' }, 'fr')
+ *   ]
+ * })
+ * ```
+ *
+ * @publicApi
+ */
+export function provideErrorMessages(messages: ErrorMessages, locale?: string): Provider {
+  return { provide: TYPED_ERROR_MESSAGES, useValue: { messages, locale }, multi: true };
+}
+
+const comparisons: Record<FieldComparison, string> = {
+  '<': 'less than',
+  '<=': 'at most',
+  '>': 'greater than',
+  '>=': 'at least'
+};
+
+/**
+ * The messages used when no others are provided, for every validator of `TypedValidators`.
+ */
+const defaultMessages: ErrorMessages = {
+  required: 'This field is required',
+  min: 'Must be at least {min}',
+  max: 'Must be at most {max}',
+  email: 'Must be a valid email address',
+  minlength: 'Must be at least {requiredLength} characters',
+  maxlength: 'Must be at most {requiredLength} characters',
+  pattern: 'Must match the pattern {requiredPattern}',
+  allowedValues: 'Must be one of {allowed}',
+  minItems: 'Must have at least {min} items',
+  maxItems: 'Must have at most {max} items',
+  uniqueItems: 'Must not contain duplicates',
+  uniqueBy: 'Must not contain duplicates',
+  duplicate: 'Must not repeat an earlier item',
+  every: 'Every item must be valid',
+  some: 'At least one item must be valid',
+  keyPattern: 'Has invalid keys: {invalidKeys}',
+  maxKeys: 'Must have at most {max} entries',
+  minKeys: 'Must have at least {min} entries',
+  requiredKeys: 'Missing entries: {missingKeys}',
+  equalFields: 'The {field} and {other} fields must match',
+  compareFields: error => `The ${error.field} field must be ${comparisons[error.operator]} the ${error.other} field`,
+  atLeastOne: 'At least one of {fields} is required',
+  server: error => Object.keys(error).map(code => error[code]).filter(message => message !== true).join(' ') ||
+    'This value was rejected'
+};
+
+function interpolate(template: string, error: any): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    if (typeof error !== 'object' || error === null || !error.hasOwnProperty(name)) return match;
+
+    const value = error[name];
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  });
+}
+
+function matchesLocale(messagesLocale: string | undefined, locale: string): boolean {
+  if (messagesLocale === undefined) return true;
+
+  const [language] = locale.toLowerCase().split('-');
+  return messagesLocale.toLowerCase() === locale.toLowerCase() || messagesLocale.toLowerCase() === language;
+}
+
+/**
+ * @description
+ * Holds the messages of errors, and turns the errors of controls into messages. The messages of
+ * every validator of `TypedValidators` are included, in English, and others are provided with
+ * `TYPED_ERROR_MESSAGES` or registered. Errors without a message are left out.
+ *
+ * The registry of the application is used for the `errorMessages` of every control once the
+ * `TypedFormsModule` is imported.
+ *
+ * @publicApi
+ */
+@Injectable({ providedIn: 'root' })
+export class ErrorMessageRegistry {
+  private _messages: ErrorMessages;
+  private _changes = new Subject<void>();
+
+  /**
+   * The locale that messages are chosen for, `LOCALE_ID` by default.
+   */
+  readonly locale: string;
+
+  constructor(
+    @Optional() @Inject(TYPED_ERROR_MESSAGES) provided: LocalizedErrorMessages[] | null,
+    @Optional() @Inject(LOCALE_ID) locale: string | null
+  ) {
+    this.locale = locale ?? 'en-US';
+
+    const all = provided ?? [];
+    this._messages = Object.assign(
+      {},
+      defaultMessages,
+      ...all.filter(entry => entry.locale === undefined).map(entry => entry.messages),
+      ...all.filter(entry => entry.locale !== undefined && matchesLocale(entry.locale, this.locale)).map(entry => entry.messages)
+    );
+  }
+
+  /**
+   * Emits whenever messages are registered.
+   */
+  get changes(): Observable<void> { return this._changes.asObservable(); }
+
+  /**
+   * Adds messages, replacing those with the same keys. Messages for another locale are ignored.
+   */
+  register(messages: ErrorMessages, locale?: string): void {
+    if (!matchesLocale(locale, this.locale)) return;
+
+    this._messages = { ...this._messages, ...messages };
+    this._changes.next();
+  }
+
+  /**
+   * The message of a single error, or `null` when there is no message for its key.
+   */
+  messageFor(key: string, error: any, control: AbstractTypedControl): string | null {
+    const message = this._messages[key];
+    if (message === undefined) return null;
+
+    return typeof message === 'function' ? message(error, control) : interpolate(message, error);
+  }
+
+  /**
+   * The messages of all of the errors of a control, in the order of its errors.
+   */
+  messagesFor(control: AbstractTypedControl): string[] {
+    const errors: ValidationErrors = control.errors ?? {};
+    return Object.keys(errors)
+      .map(key => this.messageFor(key, errors[key], control))
+      .filter((message): message is string => message !== null);
+  }
+}
+
+let activeRegistry: ErrorMessageRegistry | null = null;
+
+/**
+ * The registry used for the `errorMessages` of controls, which is the registry of the application
+ * once the `TypedFormsModule` is imported.
+ */
+export function errorMessageRegistry(): ErrorMessageRegistry {
+  return activeRegistry ?? (activeRegistry = new ErrorMessageRegistry(null, null));
+}
+
+/**
+ * Uses a registry for the `errorMessages` of controls.
+ */
+export function setErrorMessageRegistry(registry: ErrorMessageRegistry): void {
+  activeRegistry = registry;
+}
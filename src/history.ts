@@ -0,0 +1,215 @@
+import { BehaviorSubject, Observable, Subscription } from 'rxjs';
+import { distinctUntilChanged } from 'rxjs/operators';
+
+import { AbstractTypedControl, rawValueOf, TypedFormArray, TypedFormControl, TypedFormDictionary, TypedFormGroup } from './models';
+
+/**
+ * @description
+ * Configuration options for a `TypedFormHistory`.
+ *
+ * @publicApi
+ */
+export interface HistoryOptions {
+  /**
+   * The number of entries that can be undone, the oldest entries are dropped after that. Defaults
+   * to 100.
+   */
+  maxDepth?: number;
+  /**
+   * Changes made within this many milliseconds of the previous change are merged into one entry,
+   * unless they change the structure of the form. Defaults to 500.
+   */
+  coalesceTime?: number;
+}
+
+/**
+ * The children of a control and their own structure, keeping the control instances so that undoing
+ * a removal puts back the same control with its validators.
+ */
+interface StructureNode {
+  control: AbstractTypedControl;
+  children: Array<[string | number, StructureNode]>;
+}
+
+interface HistoryEntry {
+  value: any;
+  structure: StructureNode;
+}
+
+function captureStructure(control: AbstractTypedControl): StructureNode {
+  if (control instanceof TypedFormControl) return { control, children: [] };
+  if (control instanceof TypedFormArray) {
+    return { control, children: control.controls.map((item, i): [number, StructureNode] => [i, captureStructure(item)]) };
+  }
+
+  const controls: Record<string, AbstractTypedControl> = (control as TypedFormGroup<any, any>).controls;
+  return { control, children: Object.keys(controls).map((key): [string, StructureNode] => [key, captureStructure(controls[key])]) };
+}
+
+function sameStructure(a: StructureNode, b: StructureNode): boolean {
+  return a.control === b.control &&
+    a.children.length === b.children.length &&
+    a.children.every(([key, child], i) => b.children[i][0] === key && sameStructure(child, b.children[i][1]));
+}
+
+/**
+ * Puts back the children of the arrays and dictionaries in a structure. The variant of a union is
+ * restored along with its value.
+ */
+function applyStructure(node: StructureNode): void {
+  const control = node.control;
+
+  if (control instanceof TypedFormArray) {
+    const items = node.children.map(([, child]) => child.control);
+    if (items.length !== control.length || items.some((item, i) => item !== control.at(i))) {
+      control.replaceAll(items);
+    }
+  } else if (control instanceof TypedFormDictionary) {
+    const entries = new Map(node.children.map(([key, child]) => [key as string, child.control]));
+    Object.keys(control.controls)
+      .filter(key => entries.get(key) !== control.controls[key])
+      .forEach(key => control.removeControl(key));
+    entries.forEach((entry, key) => {
+      if (!control.contains(key)) control.addControl(key, entry);
+    });
+  }
+
+  node.children.forEach(([, child]) => applyStructure(child));
+}
+
+/**
+ * @description
+ * Records the changes of a form so that they can be undone and redone, including items added to
+ * and removed from arrays and dictionaries. Changes made with `emitEvent: false` are not recorded.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * const history = new TypedFormHistory(form, { maxDepth: 50 });
+ *
+ * form.controls.tags.push(new TypedFormControl('angular'));
+ * history.undo(); // removes the tag again
+ * history.redo(); // and puts it back
+ * ```
+ *
+ * @publicApi
+ */
+export class TypedFormHistory<C extends AbstractTypedControl = AbstractTypedControl> {
+  private _undo: HistoryEntry[] = [];
+  private _redo: HistoryEntry[] = [];
+  private _present: HistoryEntry;
+  private _lastChange = 0;
+  private _applying = false;
+  private _subscription: Subscription;
+  private _canUndo = new BehaviorSubject(false);
+  private _canRedo = new BehaviorSubject(false);
+
+  /**
+   * Starts recording the changes of a form.
+   *
+   * @param control The root of the form to record.
+   *
+   * @param opts Configuration options that determine how changes are recorded.
+   */
+  constructor(readonly control: C, private readonly opts: HistoryOptions = {}) {
+    this._present = this._capture();
+    this._subscription = control.ng.valueChanges.subscribe(() => this._record());
+  }
+
+  get canUndo(): boolean { return this._undo.length > 0; }
+  get canRedo(): boolean { return this._redo.length > 0; }
+
+  /**
+   * Emits whether there is a change to undo, starting with the current state.
+   */
+  get canUndo$(): Observable<boolean> { return this._canUndo.pipe(distinctUntilChanged()); }
+
+  /**
+   * Emits whether there is a change to redo, starting with the current state.
+   */
+  get canRedo$(): Observable<boolean> { return this._canRedo.pipe(distinctUntilChanged()); }
+
+  /**
+   * Reverts the form to the state before the last recorded change.
+   */
+  undo(): void {
+    const entry = this._undo.pop();
+    if (!entry) return;
+
+    this._redo.push(this._present);
+    this._apply(entry);
+  }
+
+  /**
+   * Reapplies the last change that was undone.
+   */
+  redo(): void {
+    const entry = this._redo.pop();
+    if (!entry) return;
+
+    this._undo.push(this._present);
+    this._apply(entry);
+  }
+
+  /**
+   * Forgets all of the recorded changes, keeping the form as it is.
+   */
+  clear(): void {
+    this._undo = [];
+    this._redo = [];
+    this._present = this._capture();
+    this._lastChange = 0;
+    this._notify();
+  }
+
+  /**
+   * Stops recording the changes of the form.
+   */
+  destroy(): void {
+    this._subscription.unsubscribe();
+    this._canUndo.complete();
+    this._canRedo.complete();
+  }
+
+  private _capture(): HistoryEntry {
+    return { value: rawValueOf(this.control), structure: captureStructure(this.control) };
+  }
+
+  private _record(): void {
+    if (this._applying) return;
+
+    const now = Date.now();
+    const next = this._capture();
+    const coalesce = now - this._lastChange <= (this.opts.coalesceTime ?? 500) &&
+      sameStructure(this._present.structure, next.structure);
+
+    if (!coalesce) {
+      this._undo.push(this._present);
+      this._undo.splice(0, this._undo.length - (this.opts.maxDepth ?? 100));
+    }
+
+    this._present = next;
+    this._redo = [];
+    this._lastChange = now;
+    this._notify();
+  }
+
+  private _apply(entry: HistoryEntry): void {
+    this._applying = true;
+    try {
+      applyStructure(entry.structure);
+      this.control.setValue(entry.value);
+    } finally {
+      this._applying = false;
+    }
+
+    this._present = entry;
+    this._lastChange = 0;
+    this._notify();
+  }
+
+  private _notify(): void {
+    this._canUndo.next(this.canUndo);
+    this._canRedo.next(this.canRedo);
+  }
+}
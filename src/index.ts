@@ -1,4 +1,36 @@
+export { ControlFromConfig, TypedControlConfig, TypedFormBuilder } from './builder';
+export { DraftOptions, DraftStorage, MemoryDraftStorage, TypedFormDraft } from './drafts';
 export {
-  AbstractTypedControl, TypedFormArray, TypedFormControl, TypedFormDictionary, TypedFormGroup
+  ErrorMessage, ErrorMessageRegistry, ErrorMessages, LocalizedErrorMessages, TYPED_ERROR_MESSAGES, TypedValidatorErrors,
+  provideErrorMessages
+} from './error-messages';
+export { HistoryOptions, TypedFormHistory } from './history';
+export {
+  ChangedValue, CollectErrorsOptions, ControlAtPath, ControlErrorEntry, ControlEvent, ControlPath, ControlPathString,
+  ControlShape, ControlSnapshot, ControlStatus, CreateControlFn, RestoreOptions, TypedFormArrayOptions, TypedFormDictionaryOptions,
+  ValuePathString,
+  EnabledWhenOptions, EnabledWhenRule, UnionControls, UnionValue,
+  AbstractTypedControl, TypedFormArray, TypedFormControl, TypedFormDictionary, TypedFormGroup, TypedFormUnion
 } from './models';
-export { TypedValidators } from './validators';
+export { ErrorMessagePipe, ErrorMessagesPipe } from './directives/error-message-pipes';
+export {
+  TypedFormArrayNameDirective, TypedFormControlDirective, TypedFormControlNameDirective,
+  TypedFormDictionaryNameDirective, TypedFormGroupDirective, TypedFormGroupNameDirective
+} from './directives/reactive-directives';
+export {
+  TypedCheckboxRequiredValidator, TypedMaxValidator, TypedMinLengthValidator, TypedMinValidator, TypedPatternValidator,
+  TypedRequiredValidator
+} from './directives/validator-directives';
+export { TypedGroupValidatorFn, TypedValidationErrors, ValidatorErrors } from './directives/validators';
+export {
+  TypedCheckboxControlValueAccessor, TypedControlStatus, TypedControlStatusGroup, TypedDefaultValueAccessor,
+  TypedNumberValueAccessor, TypedRadioControlValueAccessor, TypedRangeValueAccessor, TypedSelectControlValueAccessor,
+  TypedSelectMultipleControlValueAccessor
+} from './directives/value-accessors';
+export { TypedFormsModule } from './module';
+export { ApplyPatchOptions, JsonPatchOperation, applyPatch, createPatch } from './patch';
+export { JsonSchema, JsonSchemaType, SchemaControl, SchemaValue, controlFromSchema } from './schema';
+export { ServerError, ServerErrorOptions, ServerErrorPathFormat, applyServerErrors, clearServerErrors } from './server-errors';
+export {
+  CacheAsyncOptions, ComposeAsyncOptions, ConditionalValidatorOptions, CrossFieldValidatorOptions, FieldComparison, TypedValidators
+} from './validators';
@@ -1,7 +1,9 @@
 import { AbstractControl, FormArray, FormControl, FormGroup, AsyncValidatorFn, ValidationErrors, ValidatorFn } from '@angular/forms';
-import { Observable } from 'rxjs';
+import { defer, merge, Observable, Subject, Subscription } from 'rxjs';
+import { distinctUntilChanged, map, skip, startWith } from 'rxjs/operators';
 
-import { TypedAsyncValidatorFn, TypedValidatorFn } from './directives/validators';
+import { TypedAsyncValidatorFn, TypedValidationErrors, TypedValidatorFn } from './directives/validators';
+import { errorMessageRegistry } from './error-messages';
 import { composeAsyncValidators, composeValidators } from './validators';
 
 function fromEntries<T, K extends number | string | symbol>(pairs: Iterable<[K, T]> | ArrayLike<[K, T]>): Record<K ,T> {
@@ -9,10 +11,11 @@ function fromEntries<T, K extends number | string | symbol>(pairs: Iterable<[K,
 }
 
 export type ValueType<T> =
-  T extends TypedFormArray<infer U> ? ValueType<U>[]
-  : T extends TypedFormControl<infer V> ? V | null
-  : T extends TypedFormDictionary<infer W> ? { [key: string]: ValueType<W> }
-  : T extends TypedFormGroup<infer X> ? { [K in keyof X]: ValueType<X[K]> }
+  T extends TypedFormArray<infer U, any> ? ValueType<U>[]
+  : T extends TypedFormControl<infer V, any> ? V | null
+  : T extends TypedFormDictionary<infer W, infer K, any> ? Record<K, ValueType<W>>
+  : T extends TypedFormGroup<infer X, any> ? { [K in keyof X]: ValueType<X[K]> }
+  : T extends TypedFormUnion<infer K, infer V, any> ? UnionValue<K, V>
   : T extends {} ? { [K in keyof T]: ValueType<T[K]> }
   : never;
 
@@ -24,12 +27,150 @@ export type NotUnion<T> =
     : never
   : never;
 
+/**
+ * Stops `T` from being used as an inference site, e.g. for the arrays of validators, where the
+ * error maps of the validators would otherwise be inferred from only the first of them.
+ */
+export type NoInfer<T> = [T][T extends any ? 0 : never];
+
+/**
+ * Used to limit how deep the path types recurse, so that recursive control types do not cause the
+ * compiler to give up.
+ */
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/**
+ * Describes the children of a control, so that the path types can be used from within the control
+ * classes without depending on the structure of the classes themselves.
+ */
+type PathNode<T> =
+  T extends TypedFormArray<infer U, any> ? { array: U }
+  : T extends TypedFormDictionary<infer W, infer K, any> ? { dictionary: W, key: K }
+  : T extends TypedFormGroup<infer X, any> ? { group: X }
+  : never;
+
+type NodePath<N, D extends number> =
+  [D] extends [never] ? never
+  : N extends { array: infer U } ? [number] | [number, ...NodePath<PathNode<U>, PrevDepth[D]>]
+  : N extends { dictionary: infer W, key: infer K } ? [K & string] | [K & string, ...NodePath<PathNode<W>, PrevDepth[D]>]
+  : N extends { group: infer X } ? {
+    [K in keyof X & string]: [K] | [K, ...NodePath<PathNode<X[K]>, PrevDepth[D]>]
+  }[keyof X & string]
+  : never;
+
+type NodePathString<N, D extends number> =
+  [D] extends [never] ? never
+  : N extends { array: infer U } ? `${number}` | `${number}.${NodePathString<PathNode<U>, PrevDepth[D]>}`
+  : N extends { dictionary: infer W, key: infer K } ? (K & string) | `${K & string}.${NodePathString<PathNode<W>, PrevDepth[D]>}`
+  : N extends { group: infer X } ? {
+    [K in keyof X & string]: K | `${K}.${NodePathString<PathNode<X[K]>, PrevDepth[D]>}`
+  }[keyof X & string]
+  : never;
+
+type FindInNode<N, P, Nullable extends boolean> =
+  P extends [infer H, ...infer R] ?
+    N extends { array: infer U } ? (H extends number | `${number}` ? FindControl<U, R, true> : never)
+    : N extends { dictionary: infer W, key: infer K } ? (H extends K ? FindControl<W, R, true> : never)
+    : N extends { group: infer X } ? (H extends keyof X ? FindControl<X[H], R, Nullable> : never)
+    : never
+  : never;
+
+type FindControl<T, P, Nullable extends boolean> =
+  P extends [] ? (Nullable extends true ? T | null : T) : FindInNode<PathNode<T>, P, Nullable>;
+
+/**
+ * Splits a dotted string path into its segments.
+ */
+export type SplitControlPath<P extends string> =
+  P extends `${infer H}.${infer R}` ? [H, ...SplitControlPath<R>] : [P];
+
+type NodeControlAtPath<N, P> = FindInNode<N, P extends string ? SplitControlPath<P> : P, false>;
+
+/**
+ * Resolves to `P` when it is a valid dotted path, otherwise to the valid paths (or `never` for
+ * paths below a `TypedFormDictionary`, which `NodePathString` cannot rule out on its own).
+ */
+type NodePathStringParam<N, P extends string> =
+  P extends NodePathString<N, 8> ?
+    [NodeControlAtPath<N, P>] extends [never] ? never : P
+  : NodePathString<N, 8>;
+
+/**
+ * All valid paths through a control tree in array form, e.g. `['children', 0, 'name']`.
+ */
+export type ControlPath<T> = NodePath<PathNode<T>, 8>;
+
+/**
+ * All valid paths through a control tree in dotted string form, e.g. `'children.0.name'`.
+ */
+export type ControlPathString<T> = NodePathString<PathNode<T>, 8>;
+
+/**
+ * The control found at path `P` of the control `T`, where `P` is in either array or dotted string
+ * form. Any array or dictionary segment in the path adds `| null`, since there is no guarantee
+ * that the item exists. Resolves to `never` when the path is not valid for `T`.
+ */
+export type ControlAtPath<T, P> = NodeControlAtPath<PathNode<T>, P>;
+
+type ValuePath<T, D extends number> =
+  [D] extends [never] ? never
+  : T extends readonly (infer U)[] ? `${number}` | `${number}.${ValuePath<U, PrevDepth[D]>}`
+  : T extends Date | Function ? never
+  : T extends object ? {
+    [K in keyof T & string]: K | `${K}.${ValuePath<T[K], PrevDepth[D]>}`
+  }[keyof T & string]
+  : never;
+
+/**
+ * All valid paths through a value in dotted string form, e.g. `'address.country'`.
+ */
+export type ValuePathString<T> = ValuePath<T, 8>;
+
+/**
+ * Describes the structure of a control tree, used to check an existing Angular control tree when
+ * wrapping it with `fromNg`.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * const shape: ControlShape<TypedFormGroup<{ name: TypedFormControl<string>, tags: TypedFormArray<TypedFormControl<string>> }>> =
+ *   { group: { name: 'control', tags: { array: 'control' } } };
+ * ```
+ */
+export type ControlShape<T> =
+  T extends TypedFormArray<infer U, any> ? { array: ControlShape<U> }
+  : T extends TypedFormControl<any, any> ? 'control'
+  : T extends TypedFormDictionary<infer W, any, any> ? { dictionary: ControlShape<W> }
+  : T extends TypedFormGroup<infer X, any> ? { group: { [K in keyof X]: ControlShape<X[K]> } }
+  : never;
+
+type AnyControlShape =
+  'control' |
+  { array: AnyControlShape } |
+  { dictionary: AnyControlShape } |
+  { group: Record<string, AnyControlShape> };
+
 export const VALID = 'VALID';
 export const INVALID = 'INVALID';
 export const PENDING = 'PENDING';
 export const DISABLED = 'DISABLED';
 
-function _find(control: AbstractTypedControl, path: Array<string | number> | string, delimiter: string) {
+/**
+ * The validation status of a control.
+ */
+export type ControlStatus = typeof VALID | typeof INVALID | typeof PENDING | typeof DISABLED;
+
+/**
+ * A change of the state of a control, as emitted by `events$`.
+ */
+export type ControlEvent<V, E extends ValidationErrors> =
+  { type: 'value', value: V } |
+  { type: 'status', status: ControlStatus } |
+  { type: 'errors', errors: TypedValidationErrors<E> | null } |
+  { type: 'touched', touched: boolean } |
+  { type: 'dirty', dirty: boolean };
+
+function _find(control: AbstractTypedControl, path: Array<string | number> | string, delimiter: string): AbstractTypedControl | null {
   if (path == null) return null;
 
   if (!Array.isArray(path)) {
@@ -44,9 +185,10 @@ function _find(control: AbstractTypedControl, path: Array<string | number> | str
     if (controlToFind instanceof TypedFormArray) {
       controlToFind = controlToFind.at(name as number) || null;
     } else if (controlToFind instanceof TypedFormDictionary) {
-      controlToFind = controlToFind.controls.has(name as string) ? controlToFind.controls.get(name as string) : null;
-    } else if (controlToFind instanceof TypedFormGroup) {
-      controlToFind = controlToFind.controls.hasOwnProperty(name as string) ? controlToFind.controls[name] : null;
+      controlToFind = controlToFind.controls.hasOwnProperty(name) ? controlToFind.controls[name] : null;
+    } else if (controlToFind instanceof TypedFormGroup || controlToFind instanceof TypedFormUnion) {
+      const controls: Record<string, AbstractTypedControl> = controlToFind.controls;
+      controlToFind = controls.hasOwnProperty(name) ? controls[name] : null;
     } else {
       controlToFind = null;
     }
@@ -57,66 +199,192 @@ function _find(control: AbstractTypedControl, path: Array<string | number> | str
 /**
  * Gets validators from either an options object or given validators.
  */
-function pickValidators<T extends AbstractTypedControl>(validatorOrOpts?: TypedValidatorFn<T>|
-  TypedValidatorFn<T>[]|TypedAbstractControlOptions<T>|null
-): TypedValidatorFn<T>|TypedValidatorFn<T>[]|null {
+function pickValidators<T extends AbstractTypedControl, E extends ValidationErrors>(
+  validatorOrOpts?: TypedValidatorFn<T, E>|TypedValidatorFn<T, E>[]|TypedAbstractControlOptions<T, E>|null
+): TypedValidatorFn<T, E>|TypedValidatorFn<T, E>[]|null {
   return (isOptionsObj(validatorOrOpts) ? validatorOrOpts.validators : validatorOrOpts) || null;
 }
 
 /**
  * Creates validator function by combining provided validators.
  */
-function coerceToValidator<T extends AbstractTypedControl>(
-  validator: TypedValidatorFn<T>|TypedValidatorFn<T>[]|null
-): TypedValidatorFn<T>|null {
+function coerceToValidator<T extends AbstractTypedControl, E extends ValidationErrors>(
+  validator: TypedValidatorFn<T, E>|TypedValidatorFn<T, E>[]|null
+): TypedValidatorFn<T, E>|null {
   return Array.isArray(validator) ? composeValidators(validator) : validator || null;
 }
 
+/**
+ * Gets the validators a control was given as an array.
+ */
+function validatorList<V>(validators: V|V[]|null): V[] {
+  return validators === null ? [] : Array.isArray(validators) ? validators : [validators];
+}
+
+/**
+ * Adds validators to the validators a control was given, leaving out those it already has.
+ */
+function withValidators<V>(current: V|V[]|null, validators: V|V[]): V[] {
+  const result = [...validatorList(current)];
+  validatorList(validators).forEach(validator => {
+    if (result.indexOf(validator) < 0) result.push(validator);
+  });
+  return result;
+}
+
+/**
+ * Removes validators from the validators a control was given.
+ */
+function withoutValidators<V>(current: V|V[]|null, validators: V|V[]): V[] {
+  const removed = validatorList(validators);
+  return validatorList(current).filter(validator => removed.indexOf(validator) < 0);
+}
+
 /**
  * Gets async validators from either an options object or given validators.
  */
-function pickAsyncValidators<T extends AbstractTypedControl>(
-  asyncValidator?: TypedAsyncValidatorFn<T>|TypedAsyncValidatorFn<T>[]|null,
-  validatorOrOpts?: TypedValidatorFn<T>|TypedValidatorFn<T>[]|TypedAbstractControlOptions<T>|null
-): TypedAsyncValidatorFn<T>|TypedAsyncValidatorFn<T>[]|null {
+function pickAsyncValidators<T extends AbstractTypedControl, E extends ValidationErrors>(
+  asyncValidator?: TypedAsyncValidatorFn<T, E>|TypedAsyncValidatorFn<T, E>[]|null,
+  validatorOrOpts?: TypedValidatorFn<T, E>|TypedValidatorFn<T, E>[]|TypedAbstractControlOptions<T, E>|null
+): TypedAsyncValidatorFn<T, E>|TypedAsyncValidatorFn<T, E>[]|null {
   return (isOptionsObj(validatorOrOpts) ? validatorOrOpts.asyncValidators : asyncValidator) || null;
 }
 
 /**
  * Creates async validator function by combining provided async validators.
  */
-function coerceToAsyncValidator<T extends AbstractTypedControl>(
-  asyncValidator?: TypedAsyncValidatorFn<T>|TypedAsyncValidatorFn<T>[]|null
-): TypedAsyncValidatorFn<T>|null {
+function coerceToAsyncValidator<T extends AbstractTypedControl, E extends ValidationErrors>(
+  asyncValidator?: TypedAsyncValidatorFn<T, E>|TypedAsyncValidatorFn<T, E>[]|null
+): TypedAsyncValidatorFn<T, E>|null {
   return Array.isArray(asyncValidator) ? composeAsyncValidators(asyncValidator) : asyncValidator || null;
 }
 
-export declare interface TypedAbstractControlOptions<T extends AbstractTypedControl> {
+export declare interface TypedAbstractControlOptions<
+  T extends AbstractTypedControl,
+  E extends ValidationErrors = ValidationErrors
+> {
   /**
    * @description
    * The list of validators applied to a control.
    */
-  validators?: TypedValidatorFn<T> | TypedValidatorFn<T>[] | null;
+  validators?: TypedValidatorFn<T, E> | TypedValidatorFn<T, NoInfer<E>>[] | null;
   /**
    * @description
    * The list of async validators applied to control.
    */
-  asyncValidators?: TypedAsyncValidatorFn<T> | TypedAsyncValidatorFn<T>[] | null;
+  asyncValidators?: TypedAsyncValidatorFn<T, E> | TypedAsyncValidatorFn<T, NoInfer<E>>[] | null;
   /**
    * @description
    * The event name for control to update upon.
    */
   updateOn?: 'change' | 'blur' | 'submit';
+  /**
+   * @description
+   * A rule that enables the control while it returns true for the root of the form, and disables
+   * it otherwise, optionally with the options for the rule. See `enabledWhen`.
+   */
+  enabledWhen?: EnabledWhenRule<any> | ({ rule: EnabledWhenRule<any> } & EnabledWhenOptions<ValueType<T>>);
+}
+
+/**
+ * @description
+ * Options for a `TypedFormArray`.
+ *
+ * @publicApi
+ */
+export interface TypedFormArrayOptions<
+  T extends AbstractTypedControl,
+  E extends ValidationErrors = ValidationErrors
+> extends TypedAbstractControlOptions<TypedFormArray<T, any>, E> {
+  /**
+   * @description
+   * Creates an item of the array, given the value that it is created for when there is one. With
+   * it, `setValue`, `patchValue` and `reset` add and remove items to match the length of the value.
+   */
+  itemFactory?: (value?: ValueType<T>) => T;
+}
+
+/**
+ * @description
+ * Options for a `TypedFormDictionary`.
+ *
+ * @publicApi
+ */
+export interface TypedFormDictionaryOptions<
+  T extends AbstractTypedControl,
+  K extends string = string,
+  E extends ValidationErrors = ValidationErrors
+> extends TypedAbstractControlOptions<TypedFormDictionary<T, any, any>, E> {
+  /**
+   * @description
+   * Creates an entry of the dictionary, given its key and the value that it is created for when
+   * there is one. With it, `setValue` and `reset` add and remove entries to match the keys of the
+   * value, and `patchValue` adds the entries that are missing.
+   */
+  entryFactory?: (key: K, value?: ValueType<T>) => T;
+}
+
+/**
+ * @description
+ * A rule given to `enabledWhen`, called with the root of the form.
+ *
+ * @publicApi
+ */
+export type EnabledWhenRule<R extends AbstractTypedControl = AbstractTypedControl> = (root: R) => boolean;
+
+/**
+ * @description
+ * Options for `enabledWhen`.
+ *
+ * @publicApi
+ */
+export interface EnabledWhenOptions<V = any> {
+  /**
+   * @description
+   * The value that the control is reset to whenever the rule disables it.
+   */
+  resetTo?: V;
+  /**
+   * @description
+   * Whether the rule emits `valueChanges` and `statusChanges` when a change of the value of the
+   * form enables or disables the control. Defaults to `true`.
+   */
+  emitEvent?: boolean;
+}
+
+interface EnabledWhenState {
+  rule: EnabledWhenRule<any>;
+  opts: EnabledWhenOptions;
+  subscription: Subscription | null;
+  applying: boolean;
 }
 
-function isOptionsObj<T extends AbstractTypedControl>(
-  validatorOrOpts?: TypedValidatorFn<T>|TypedValidatorFn<T>[]|TypedAbstractControlOptions<T>|null
-): validatorOrOpts is TypedAbstractControlOptions<T> {
+function isOptionsObj<T extends AbstractTypedControl, E extends ValidationErrors>(
+  validatorOrOpts?: TypedValidatorFn<T, E>|TypedValidatorFn<T, E>[]|TypedAbstractControlOptions<T, E>|null
+): validatorOrOpts is TypedAbstractControlOptions<T, E> {
   return validatorOrOpts != null && !Array.isArray(validatorOrOpts) && typeof validatorOrOpts === 'object';
 }
 
-function toNgUpdateOn<T extends AbstractTypedControl>(
-  validatorOrOpts?: TypedValidatorFn<T> | TypedValidatorFn<T>[] | TypedAbstractControlOptions<T> | null
+/**
+ * Applies the `enabledWhen` rule from the options, once the control has been created.
+ */
+function initEnabledWhen<T extends AbstractTypedControl, E extends ValidationErrors>(
+  control: AbstractTypedControl,
+  validatorOrOpts?: TypedValidatorFn<T, E> | TypedValidatorFn<T, E>[] | TypedAbstractControlOptions<T, E> | null
+): void {
+  const enabledWhen = isOptionsObj(validatorOrOpts) ? validatorOrOpts.enabledWhen : null;
+  if (!enabledWhen) return;
+
+  if (typeof enabledWhen === 'function') {
+    control.enabledWhen(enabledWhen);
+  } else {
+    const { rule, ...opts } = enabledWhen;
+    control.enabledWhen(rule, opts);
+  }
+}
+
+function toNgUpdateOn<T extends AbstractTypedControl, E extends ValidationErrors>(
+  validatorOrOpts?: TypedValidatorFn<T, E> | TypedValidatorFn<T, E>[] | TypedAbstractControlOptions<T, E> | null
 ): 'change' | 'blur' | 'submit' | undefined {
   if (!validatorOrOpts) return undefined;
 
@@ -125,58 +393,33 @@ function toNgUpdateOn<T extends AbstractTypedControl>(
   return undefined;
 }
 
-function toNgValidator<T extends AbstractTypedControl>(control: T, validatorFn: TypedValidatorFn<T>): ValidatorFn;
-function toNgValidator<T extends AbstractTypedControl>(
+function toNgAsyncValidator<T extends AbstractTypedControl, E extends ValidationErrors>(
   control: T,
-  validatorFn: TypedValidatorFn<T> | null
-): ValidatorFn | null;
-function toNgValidator<T extends AbstractTypedControl>(control: T, validatorFn: TypedValidatorFn<T>[]): ValidatorFn[];
-function toNgValidator<T extends AbstractTypedControl>(
-  control: T,
-  validatorFn: TypedValidatorFn<T>[] | null
-): ValidatorFn[] | null;
-function toNgValidator<T extends AbstractTypedControl>(
-  control: T,
-  validatorFn: TypedValidatorFn<T> | TypedValidatorFn<T>[]
-): ValidatorFn | ValidatorFn[];
-function toNgValidator<T extends AbstractTypedControl>(
-  control: T,
-  validatorFn?: TypedValidatorFn<T> | TypedValidatorFn<T>[] | null
-): ValidatorFn | ValidatorFn[] | null;
-function toNgValidator<T extends AbstractTypedControl>(
-  control: T,
-  validatorFn?: TypedValidatorFn<T> | TypedValidatorFn<T>[] | null
-): ValidatorFn | ValidatorFn[] | null {
-  if (!validatorFn) return null;
-  if (Array.isArray(validatorFn)) return validatorFn.map(v => toNgValidator(control, v));
-
-  // tslint:disable-next-line: only-arrow-functions
-  return function(ngControl: AbstractControl) {
-    return validatorFn(control);
-  };
-}
-
-function toNgAsyncValidator<T extends AbstractTypedControl>(control: T, asyncValidatorFn: TypedAsyncValidatorFn<T>): AsyncValidatorFn;
-function toNgAsyncValidator<T extends AbstractTypedControl>(
+  asyncValidatorFn: TypedAsyncValidatorFn<T, E>
+): AsyncValidatorFn;
+function toNgAsyncValidator<T extends AbstractTypedControl, E extends ValidationErrors>(
   control: T,
-  asyncValidatorFn: TypedAsyncValidatorFn<T> | null
+  asyncValidatorFn: TypedAsyncValidatorFn<T, E> | null
 ): AsyncValidatorFn | null;
-function toNgAsyncValidator<T extends AbstractTypedControl>(control: T, asyncValidatorFn: TypedAsyncValidatorFn<T>[]): AsyncValidatorFn[];
-function toNgAsyncValidator<T extends AbstractTypedControl>(
+function toNgAsyncValidator<T extends AbstractTypedControl, E extends ValidationErrors>(
+  control: T,
+  asyncValidatorFn: TypedAsyncValidatorFn<T, E>[]
+): AsyncValidatorFn[];
+function toNgAsyncValidator<T extends AbstractTypedControl, E extends ValidationErrors>(
   control: T,
-  asyncValidatorFn: TypedAsyncValidatorFn<T>[] | null
+  asyncValidatorFn: TypedAsyncValidatorFn<T, E>[] | null
 ): AsyncValidatorFn[] | null;
-function toNgAsyncValidator<T extends AbstractTypedControl>(
+function toNgAsyncValidator<T extends AbstractTypedControl, E extends ValidationErrors>(
   control: T,
-  asyncValidatorFn: TypedAsyncValidatorFn<T> | TypedAsyncValidatorFn<T>[]
+  asyncValidatorFn: TypedAsyncValidatorFn<T, E> | TypedAsyncValidatorFn<T, E>[]
 ): AsyncValidatorFn | AsyncValidatorFn[];
-function toNgAsyncValidator<T extends AbstractTypedControl>(
+function toNgAsyncValidator<T extends AbstractTypedControl, E extends ValidationErrors>(
   control: T,
-  asyncValidator?: TypedAsyncValidatorFn<T> | TypedAsyncValidatorFn<T>[] | null
+  asyncValidator?: TypedAsyncValidatorFn<T, E> | TypedAsyncValidatorFn<T, E>[] | null
 ): AsyncValidatorFn | AsyncValidatorFn[] | null;
-function toNgAsyncValidator<T extends AbstractTypedControl>(
+function toNgAsyncValidator<T extends AbstractTypedControl, E extends ValidationErrors>(
   control: T,
-  asyncValidator?: TypedAsyncValidatorFn<T> | TypedAsyncValidatorFn<T>[] | null
+  asyncValidator?: TypedAsyncValidatorFn<T, E> | TypedAsyncValidatorFn<T, E>[] | null
 ): AsyncValidatorFn | AsyncValidatorFn[] | null {
   if (!asyncValidator) return null;
   if (Array.isArray(asyncValidator)) return asyncValidator.map(v => toNgAsyncValidator(control, v));
@@ -187,26 +430,600 @@ function toNgAsyncValidator<T extends AbstractTypedControl>(
   };
 }
 
-export abstract class AbstractTypedControl {
-  private _parent: TypedFormArray<any> | TypedFormDictionary<any> | TypedFormGroup<any> | null = null;
+/**
+ * The existing Angular control for the next typed control that is constructed to wrap, set only
+ * while `fromNg` is constructing it.
+ */
+let ngToAdopt: AbstractControl | null = null;
+
+function adoptNg<C extends AbstractTypedControl>(ng: AbstractControl, create: () => C): C {
+  ngToAdopt = ng;
+  try {
+    return create();
+  } finally {
+    ngToAdopt = null;
+  }
+}
+
+function takeAdoptedNg<C extends AbstractControl>(): C | null {
+  const ng = ngToAdopt;
+  ngToAdopt = null;
+  return ng as C | null;
+}
+
+/**
+ * Sets the validators of the Angular control of a typed control. Its sync validator runs the
+ * current validators of the typed control, so it is set once and never replaced, while the async
+ * validators are set again by `setNgAsyncValidators` whenever they change. The validators that an
+ * adopted Angular control was created with are kept alongside them.
+ */
+function initNgValidators(
+  control: AbstractTypedControl,
+  adopted: boolean,
+  validator: () => TypedValidatorFn<any, any> | null,
+  asyncValidator: AsyncValidatorFn | AsyncValidatorFn[] | null
+): void {
+  // tslint:disable-next-line: only-arrow-functions
+  const ngValidator = function(ngControl: AbstractControl) {
+    const validatorFn = validator();
+    control._nextChildErrors = new Map();
+    const errors = validatorFn ? validatorFn(control) : null;
+    updateChildErrors(control, control._nextChildErrors);
+    control._nextChildErrors = null;
+
+    const attached = control.parent?._childErrors.get(control);
+    return attached ? { ...errors, ...attached } : errors;
+  };
+
+  if (adopted) {
+    control._adoptedNgAsyncValidator = control.ng.asyncValidator;
+    control.ng.addValidators(ngValidator);
+  } else {
+    control.ng.setValidators(ngValidator);
+  }
+  setNgAsyncValidators(control, asyncValidator);
+}
+
+/**
+ * Attaches errors to a child of a control from one of the validators of the control, such as a
+ * cross field validator of a group. The errors are kept until the validators of the control run
+ * again, and are removed once they are no longer attached or the child is removed from the
+ * control. Errors attached outside of a run of the validators are ignored, so that a validator
+ * called directly has no effect on the children.
+ */
+export function attachChildErrors(control: AbstractTypedControl, child: AbstractTypedControl, errors: ValidationErrors): void {
+  if (!control._nextChildErrors) return;
+
+  control._nextChildErrors.set(child, { ...control._nextChildErrors.get(child), ...errors });
+}
+
+/**
+ * Replaces the errors attached to the children of a control once its validators have run.
+ */
+function updateChildErrors(control: AbstractTypedControl, next: Map<AbstractTypedControl, ValidationErrors>): void {
+  const previous = control._childErrors;
+  control._childErrors = next;
+
+  new Set([...previous.keys(), ...next.keys()])
+    .forEach(child => replaceAttachedErrors(child, previous.get(child), next.get(child)));
+}
+
+/**
+ * Replaces the errors that were attached to a control, keeping the errors of its own validators.
+ */
+function replaceAttachedErrors(control: AbstractTypedControl, before?: ValidationErrors, after?: ValidationErrors): void {
+  if (control.disabled || isEqual(before ?? null, after ?? null)) return;
+
+  const errors: ValidationErrors = { ...control.errors };
+  Object.keys(before ?? {}).forEach(key => delete errors[key]);
+  Object.assign(errors, after);
+  control.setErrors(Object.keys(errors).length ? errors : null, { emitEvent: false });
+}
+
+/**
+ * Sets the async validators of the Angular control of a typed control, after those that an adopted
+ * Angular control was created with.
+ */
+function setNgAsyncValidators(control: AbstractTypedControl, asyncValidator: AsyncValidatorFn | AsyncValidatorFn[] | null): void {
+  const validators = asyncValidator == null ? [] : Array.isArray(asyncValidator) ? asyncValidator : [asyncValidator];
+  const adopted = control._adoptedNgAsyncValidator;
+  control.ng.setAsyncValidators(adopted ? [adopted, ...validators] : validators);
+}
+
+/**
+ * Throws if the Angular control tree does not have the given shape.
+ */
+function assertNgShape(ng: AbstractControl, shape: AnyControlShape, path: string[] = []): void {
+  const at = path.length ? ` at '${path.join('.')}'` : '';
+
+  if (shape === 'control') {
+    if (!(ng instanceof FormControl)) throw new Error(`Expected a FormControl${at}.`);
+  } else if ('array' in shape) {
+    if (!(ng instanceof FormArray)) throw new Error(`Expected a FormArray${at}.`);
+
+    ng.controls.forEach((ctrl, index) => assertNgShape(ctrl, shape.array, [...path, `${index}`]));
+  } else if ('dictionary' in shape) {
+    if (!(ng instanceof FormGroup)) throw new Error(`Expected a FormGroup${at}.`);
+
+    Object.entries(ng.controls).forEach(([key, ctrl]) => assertNgShape(ctrl, shape.dictionary, [...path, key]));
+  } else {
+    if (!(ng instanceof FormGroup)) throw new Error(`Expected a FormGroup${at}.`);
+
+    const unexpectedKey = Object.keys(ng.controls).find(key => !shape.group.hasOwnProperty(key));
+    if (unexpectedKey != null) throw new Error(`Unexpected control '${unexpectedKey}'${at}.`);
+
+    Object.entries(shape.group).forEach(([key, childShape]) => {
+      if (!ng.controls.hasOwnProperty(key)) throw new Error(`Missing control '${key}'${at}.`);
+
+      assertNgShape(ng.controls[key], childShape, [...path, key]);
+    });
+  }
+}
+
+/**
+ * Wraps an Angular control tree, which must already have been checked against the shape.
+ */
+function wrapNg(ng: AbstractControl, shape: AnyControlShape): AbstractTypedControl {
+  if (shape === 'control') {
+    return adoptNg(ng, () => new TypedFormControl());
+  }
+
+  if ('array' in shape) {
+    const items = (ng as FormArray).controls.map(ctrl => wrapNg(ctrl, shape.array));
+    return adoptNg(ng, () => new TypedFormArray(items));
+  }
+
+  if ('dictionary' in shape) {
+    const entries = wrapNgChildren(ng as FormGroup, () => shape.dictionary);
+    return adoptNg(ng, () => new TypedFormDictionary(entries));
+  }
+
+  const controls = wrapNgChildren(ng as FormGroup, key => shape.group[key]);
+  return adoptNg(ng, () => new TypedFormGroup(controls));
+}
+
+function wrapNgChildren(ng: FormGroup, shapeOf: (key: string) => AnyControlShape): Record<string, AbstractTypedControl> {
+  return fromEntries(Object.entries(ng.controls).map(([key, ctrl]) => [key, wrapNg(ctrl, shapeOf(key))]));
+}
+
+/**
+ * The controls that can have children.
+ */
+type ParentControl = TypedFormArray<any, any> | TypedFormDictionary<any, any, any> | TypedFormGroup<any, any> | TypedFormUnion<any, any, any>;
+
+/**
+ * Gets the direct children of a control.
+ */
+export function childrenOf(control: AbstractTypedControl): AbstractTypedControl[] {
+  if (control instanceof TypedFormArray) return control.controls;
+  if (control instanceof TypedFormDictionary || control instanceof TypedFormGroup || control instanceof TypedFormUnion) {
+    return Object.values(control.controls);
+  }
+  return [];
+}
+
+/**
+ * Collects the errors of a control and its descendants, with the paths of the controls relative to
+ * the control that the errors are collected from.
+ */
+function collectErrorsOf(
+  control: AbstractTypedControl,
+  path: string[],
+  opts: CollectErrorsOptions,
+  entries: ControlErrorEntry[]
+): void {
+  if (control.disabled && !opts.includeDisabled) return;
+
+  if (control.errors) entries.push({ path: path.join('.'), control, errors: control.errors });
+
+  if (control instanceof TypedFormArray) {
+    control.controls.forEach((child, i) => collectErrorsOf(child, [...path, String(i)], opts, entries));
+  } else if (!(control instanceof TypedFormControl)) {
+    const controls: Record<string, AbstractTypedControl> = (control as ParentControl).controls;
+    Object.keys(controls).forEach(key => collectErrorsOf(controls[key], [...path, key], opts, entries));
+  }
+}
+
+/**
+ * Configuration options for `matchItemsTo`.
+ */
+export interface MatchItemsOptions {
+  /**
+   * Whether to remove the dictionary entries that the value does not have, true by default. Patched
+   * values keep them.
+   */
+  removeMissing?: boolean;
+  /**
+   * Whether to also match the arrays without an `itemFactory` and the dictionaries without an
+   * `entryFactory`, whose missing children can then only be created by `createControl`.
+   */
+  matchAll?: boolean;
+  /**
+   * Creates the missing array items and dictionary entries, in place of the factories of their
+   * parents.
+   */
+  createControl?: (parent: AbstractTypedControl, key: string | number, value: unknown) => AbstractTypedControl;
+}
+
+/**
+ * Creates an array item or dictionary entry that is missing from a form, with `create` when it is
+ * given and otherwise with the factory of its parent.
+ */
+function createControl<S>(
+  parent: ParentControl,
+  key: string | number,
+  source: S,
+  create: ((parent: ParentControl, key: string | number, source: S) => AbstractTypedControl) | undefined,
+  value?: unknown
+): AbstractTypedControl {
+  if (!create && parent instanceof TypedFormArray && parent.itemFactory) {
+    return parent.itemFactory(value);
+  }
+  if (!create && parent instanceof TypedFormDictionary && parent.entryFactory) {
+    return parent.entryFactory(key as string, value);
+  }
+  if (!create) {
+    throw new Error(`Cannot create the missing control '${key}' without a createControl function.`);
+  }
+
+  return create(parent, key, source);
+}
+
+/**
+ * Adds and removes the items of every array with an `itemFactory`, and the entries of every
+ * dictionary with an `entryFactory`, in a control and its descendants, and activates the variants
+ * of unions, to match a value that is about to be set. Angular sets the value of the children
+ * directly, so this has to be done before the value is set on the root. All of the missing
+ * children are created before the form is changed, so that it is left as it was when one of them
+ * cannot be.
+ */
+export function matchItemsTo(control: AbstractTypedControl, value: any, opts: MatchItemsOptions = {}): void {
+  const changes: Array<() => void> = [];
+  collectItemChanges(control, value, opts, changes);
+  changes.forEach(change => change());
+}
+
+/**
+ * Collects the changes that `matchItemsTo` makes to a control and its descendants, creating the
+ * missing children on the way.
+ */
+function collectItemChanges(control: AbstractTypedControl, value: any, opts: MatchItemsOptions, changes: Array<() => void>): void {
+  if (control instanceof TypedFormControl || value == null || typeof value !== 'object') return;
+
+  if (control instanceof TypedFormArray) {
+    if (!Array.isArray(value)) return;
+
+    const matched = control.itemFactory || opts.matchAll;
+    const kept = matched ? control.controls.slice(0, value.length) : control.controls;
+    kept.forEach((item, i) => collectItemChanges(item, value[i], opts, changes));
+
+    if (matched) {
+      const items = value.slice(control.length).map((itemValue, i) => {
+        const item = createControl(control, control.length + i, itemValue, opts.createControl, itemValue);
+        collectItemChanges(item, itemValue, opts, changes);
+        return item;
+      });
+      changes.push(() => {
+        while (control.length > value.length) control.removeAt(control.length - 1, { emitEvent: false });
+        items.forEach(item => control.push(item, { emitEvent: false }));
+      });
+    }
+    return;
+  }
+
+  let controls: Record<string, AbstractTypedControl> = (control as ParentControl).controls;
+  if (control instanceof TypedFormDictionary && (control.entryFactory || opts.matchAll)) {
+    if (opts.removeMissing ?? true) {
+      const missing = Object.keys(control.controls).filter(key => !value.hasOwnProperty(key));
+      changes.push(() => missing.forEach(key => control.removeControl(key, { emitEvent: false })));
+    }
+    Object.keys(value)
+      .filter(key => !control.contains(key))
+      .forEach(key => {
+        const entry = createControl(control, key, value[key], opts.createControl, value[key]);
+        collectItemChanges(entry, value[key], opts, changes);
+        changes.push(() => control.addControl(key, entry, { emitEvent: false }));
+      });
+  } else if (control instanceof TypedFormUnion) {
+    const variant = value[control.discriminatorKey];
+    if (variant !== undefined) {
+      const variants: Record<string, Record<string, AbstractTypedControl>> = control.variants;
+      controls = variants.hasOwnProperty(variant) ? variants[variant] : {};
+      changes.push(() => control._activate(variant));
+    }
+  }
+
+  Object.keys(value)
+    .filter(key => controls.hasOwnProperty(key))
+    .forEach(key => collectItemChanges(controls[key], value[key], opts, changes));
+}
+
+/**
+ * Calls the context change callbacks of a control and all of its descendants, since they all
+ * have a new root.
+ */
+function notifyContextChange(control: AbstractTypedControl): void {
+  control._onContextChange.forEach(fn => fn());
+  childrenOf(control).forEach(notifyContextChange);
+}
+
+/**
+ * Angular has no events for the errors, touched and pristine state of a control, so the typed
+ * controls notify them from their own methods. Angular also marks the parents of a control as
+ * touched or dirty, and the children as untouched or pristine, so they are notified along with it.
+ */
+function notifyStateChange(control: AbstractTypedControl, opts: { onlySelf?: boolean }, withChildren: boolean): void {
+  if (withChildren) childrenOf(control).forEach(child => notifyStateChange(child, { onlySelf: true }, true));
+  control._stateChanges.next();
+  if (!opts.onlySelf && control.parent) notifyStateChange(control.parent, opts, false);
+}
+
+/**
+ * Patches the methods that mark the Angular control of a typed control as touched, untouched, dirty
+ * or pristine to notify the typed control, since Angular also calls them itself, for example when
+ * the element of a value accessor is blurred, or when a control is reset.
+ */
+function notifyNgStateChanges(control: AbstractTypedControl): void {
+  const ng = control.ng;
+  (['markAsTouched', 'markAsUntouched', 'markAsDirty', 'markAsPristine'] as const).forEach(method => {
+    const markAs = ng[method];
+    ng[method] = (opts: { onlySelf?: boolean } = {}) => {
+      markAs.call(ng, opts);
+      notifyStateChange(control, opts, false);
+    };
+  });
+}
+
+/**
+ * Compares two values structurally, so that streams do not emit values and errors that are equal
+ * but have been recreated.
+ */
+export function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b) || Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => b.hasOwnProperty(key) && isEqual(a[key], b[key]));
+}
+
+/**
+ * Copies the arrays and plain objects of a value, so that an initial value is not changed along
+ * with the values it was taken from.
+ */
+export function cloneValue<V>(value: V): V {
+  if (Array.isArray(value)) return value.map(cloneValue) as any;
+  if (!value || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) return value;
+
+  return fromEntries(Object.keys(value).map(key => [key, cloneValue((value as any)[key])])) as any;
+}
+
+export function rawValueOf(control: AbstractTypedControl): any {
+  return control instanceof TypedFormControl ? control.value : (control as ParentControl).getRawValue();
+}
+
+/**
+ * The value of the children of a group or dictionary that differ from an initial value, recursing
+ * into the children that are groups and dictionaries themselves. Disabled children are left out,
+ * as they are from `value`, and so are the children whose only changes are in disabled children.
+ */
+function changedValueOf(control: AbstractTypedControl, initial: any): any {
+  if (!(control instanceof TypedFormGroup || control instanceof TypedFormDictionary)) return control.value;
+
+  const controls: Record<string, AbstractTypedControl> = control.controls;
+  const initialValues: Record<string, unknown> = initial && typeof initial === 'object' ? initial : {};
+  return fromEntries(Object.keys(controls)
+    .filter(key => controls[key].enabled)
+    .filter(key => !initialValues.hasOwnProperty(key) || !isEqual(rawValueOf(controls[key]), initialValues[key]))
+    .map((key): [string, any] => [key, changedValueOf(controls[key], initialValues[key])])
+    .filter(([key, value]) => !initialValues.hasOwnProperty(key) || !isEqual(value, {}) || childrenOf(controls[key]).length === 0));
+}
+
+/**
+ * The type of the value returned by `getChangedValue`. Groups and dictionaries only have the keys
+ * that changed, while arrays and unions are replaced as a whole, as in a JSON merge patch.
+ */
+export type ChangedValue<T> =
+  T extends TypedFormArray<any, any> | TypedFormControl<any, any> ? ValueType<T>
+  : T extends TypedFormDictionary<infer W, infer K, any> ? Partial<Record<K, ChangedValue<W>>>
+  : T extends TypedFormGroup<infer X, any> ? { [K in keyof X]?: ChangedValue<X[K]> }
+  : ValueType<T>;
+
+/**
+ * @description
+ * The errors of one of the controls found by `collectErrors`.
+ *
+ * @publicApi
+ */
+export interface ControlErrorEntry {
+  /**
+   * The path of the control as accepted by `get`, which is empty for the control that the errors
+   * were collected from.
+   */
+  path: string;
+  control: AbstractTypedControl;
+  errors: ValidationErrors;
+}
+
+/**
+ * @description
+ * Configuration options for `collectErrors`.
+ *
+ * @publicApi
+ */
+export interface CollectErrorsOptions {
+  /**
+   * Whether to include disabled controls and their descendants, which is false by default. Angular
+   * clears the errors of a control when it is disabled, so only errors set afterwards are found.
+   */
+  includeDisabled?: boolean;
+}
+
+/**
+ * The complete state of a control and its descendants, as taken by `snapshot`. It is JSON-safe as
+ * long as the values and errors of the controls are.
+ */
+export interface ControlSnapshot {
+  /**
+   * The value of a `TypedFormControl`, the values of other controls are held by their children.
+   */
+  value?: any;
+  disabled: boolean;
+  touched: boolean;
+  dirty: boolean;
+  errors: ValidationErrors | null;
+  /**
+   * The snapshots of the children, by index for a `TypedFormArray` and by name otherwise.
+   */
+  controls?: ControlSnapshot[] | { [key: string]: ControlSnapshot };
+}
+
+/**
+ * Creates a control for an array item or dictionary entry that a snapshot has but the form does
+ * not, the control is then restored from the snapshot.
+ */
+export type CreateControlFn = (parent: ParentControl, key: string | number, snapshot: ControlSnapshot) => AbstractTypedControl;
+
+export interface RestoreOptions {
+  /**
+   * Creates the missing children of arrays and dictionaries, restoring a snapshot that has more
+   * children than the form throws without it. Arrays with an `itemFactory` and dictionaries with an
+   * `entryFactory` use them by default.
+   */
+  createControl?: CreateControlFn;
+  /**
+   * When true or not supplied (the default), the `statusChanges` and `valueChanges` observables
+   * emit events as the controls are restored.
+   */
+  emitEvent?: boolean;
+}
+
+function takeSnapshot(control: AbstractTypedControl): ControlSnapshot {
+  const snapshot: ControlSnapshot = {
+    disabled: control.disabled,
+    touched: control.touched,
+    dirty: control.dirty,
+    errors: control.errors
+  };
+
+  if (control instanceof TypedFormArray) {
+    snapshot.controls = control.controls.map(takeSnapshot);
+  } else if (control instanceof TypedFormControl) {
+    snapshot.value = control.value;
+  } else {
+    const controls: Record<string, AbstractTypedControl> = (control as ParentControl).controls;
+    snapshot.controls = fromEntries(Object.keys(controls).map(key => [key, takeSnapshot(controls[key])]));
+  }
+
+  return snapshot;
+}
+
+/**
+ * Matches the children of arrays and dictionaries to a snapshot, and restores the variant of a union,
+ * so that the controls of the snapshot can be restored one by one.
+ */
+function restoreStructure(control: ParentControl, snapshots: ControlSnapshot[] | Record<string, ControlSnapshot>, opts: RestoreOptions): void {
+  if (control instanceof TypedFormArray) {
+    const items = snapshots as ControlSnapshot[];
+    while (control.length > items.length) control.removeAt(control.length - 1);
+    for (let i = control.length; i < items.length; i++) control.push(createControl(control, i, items[i], opts.createControl));
+  } else if (control instanceof TypedFormDictionary) {
+    const entries = snapshots as Record<string, ControlSnapshot>;
+    Object.keys(control.controls).filter(key => !entries.hasOwnProperty(key)).forEach(key => control.removeControl(key));
+    Object.keys(entries).filter(key => !control.contains(key))
+      .forEach(key => control.addControl(key, createControl(control, key, entries[key], opts.createControl)));
+  } else if (control instanceof TypedFormUnion) {
+    const controls: Record<string, AbstractTypedControl> = control.controls;
+    const key = Object.keys(controls).find(name => controls[name] === control.discriminator)!;
+    const discriminator = (snapshots as Record<string, ControlSnapshot>)[key];
+    if (discriminator) control.patchValue({ [key]: discriminator.value } as any, { emitEvent: false });
+  }
+}
+
+/**
+ * Restores a control from a snapshot. The flags of a control are restored before its children, as
+ * marking a parent as untouched or pristine also marks its children, and its status and errors
+ * after its children, as they depend on them.
+ */
+function restoreSnapshot(control: AbstractTypedControl, snapshot: ControlSnapshot, opts: RestoreOptions): void {
+  const emitEvent = opts.emitEvent ?? true;
+
+  if (snapshot.touched) control.markAsTouched({ onlySelf: true }); else control.markAsUntouched({ onlySelf: true });
+  if (snapshot.dirty) control.markAsDirty({ onlySelf: true }); else control.markAsPristine({ onlySelf: true });
+
+  if (control instanceof TypedFormControl) {
+    if (snapshot.disabled) control.disable({ onlySelf: true, emitEvent: false }); else control.enable({ onlySelf: true, emitEvent: false });
+    control.setValue(snapshot.value, { onlySelf: true, emitEvent });
+  } else {
+    const parent = control as ParentControl;
+    restoreStructure(parent, snapshot.controls ?? {}, opts);
+
+    const controls: Record<string, AbstractTypedControl> = parent.controls;
+    const snapshots = (snapshot.controls ?? {}) as Record<string, ControlSnapshot>;
+    Object.keys(controls)
+      .filter(key => snapshots.hasOwnProperty(key))
+      .forEach(key => restoreSnapshot(controls[key], snapshots[key], opts));
+
+    control.updateValueAndValidity({ onlySelf: true, emitEvent });
+    if (snapshot.disabled !== control.disabled) {
+      if (snapshot.disabled) control.disable({ onlySelf: true, emitEvent }); else control.enable({ onlySelf: true, emitEvent });
+    }
+  }
+
+  if (!isEqual(snapshot.errors, control.errors)) control.setErrors(snapshot.errors, { emitEvent });
+}
+
+let nextControlId = 0;
+
+export abstract class AbstractTypedControl<E extends ValidationErrors = ValidationErrors> {
+  private _parent: ParentControl | null = null;
+
+  /**
+   * A generated id that is unique to the control and stays the same for as long as it exists, for
+   * example to track the items of an array while they are moved around.
+   */
+  readonly id: number = nextControlId++;
+
+  private _enabledWhen: EnabledWhenState | null = null;
+  private _enabledWhenRegistered = false;
+  private _rebased = new Subject<void>();
+
+  /** @internal */
+  _initialValue: any;
+
+  /** @internal */
+  _onContextChange: Array<() => void> = [];
+
+  /** @internal */
+  readonly _stateChanges = new Subject<void>();
+
+  /** @internal */
+  _adoptedNgAsyncValidator: AsyncValidatorFn | null = null;
+
+  /** @internal */
+  _childErrors = new Map<AbstractTypedControl, ValidationErrors>();
+
+  /** @internal */
+  _nextChildErrors: Map<AbstractTypedControl, ValidationErrors> | null = null;
 
   abstract get ng(): AbstractControl;
 
   get value() { return this.ng.value; }
   get parent() { return this._parent; }
-  get status() { return this.ng.status; }
+  get status(): ControlStatus { return this.ng.status; }
   get valid() { return this.ng.valid; }
   get invalid() { return this.ng.invalid; }
   get pending() { return this.ng.pending; }
   get disabled() { return this.ng.disabled; }
   get enabled() { return this.ng.enabled; }
-  get errors() { return this.ng.errors; }
+  get errors(): TypedValidationErrors<E> | null { return this.ng.errors as TypedValidationErrors<E> | null; }
   get pristine() { return this.ng.pristine; }
   get dirty() { return this.ng.dirty; }
   get touched() { return this.ng.touched; }
   get untouched() { return this.ng.untouched; }
   get valueChanges() { return this.ng.valueChanges; }
-  get statusChanges() { return this.ng.statusChanges; }
+  get statusChanges(): Observable<ControlStatus> { return this.ng.statusChanges; }
   get updateOn() { return this.ng.updateOn; }
   markAsTouched(opts: { onlySelf?: boolean } = {}) { return this.ng.markAsTouched(opts); }
   markAllAsTouched() { return this.ng.markAllAsTouched(); }
@@ -217,23 +1034,247 @@ export abstract class AbstractTypedControl {
   disable(opts: { onlySelf?: boolean, emitEvent?: boolean } = {}) { return this.ng.disable(opts); }
   enable(opts: { onlySelf?: boolean, emitEvent?: boolean } = {}) { return this.ng.enable(opts); }
 
-  setParent(parent: TypedFormArray<any> | TypedFormDictionary<any> | TypedFormGroup<any>): void {
+  /**
+   * Emits the value of the control, starting with the current value, whenever it changes.
+   */
+  get value$(): Observable<this['value']> {
+    return defer(() => this.valueChanges.pipe(startWith(this.value))).pipe(distinctUntilChanged(isEqual));
+  }
+
+  /**
+   * Emits the status of the control, starting with the current status, whenever it changes.
+   */
+  get status$(): Observable<ControlStatus> {
+    return defer(() => this.statusChanges.pipe(startWith(this.status))).pipe(distinctUntilChanged());
+  }
+
+  /**
+   * Emits the errors of the control, starting with the current errors, whenever they change. This
+   * includes errors set without emitting events, such as those attached by cross field validators.
+   */
+  get errors$(): Observable<TypedValidationErrors<E> | null> {
+    return defer(() => merge(this.statusChanges, this._stateChanges).pipe(
+      map(() => this.errors),
+      startWith(this.errors)
+    )).pipe(distinctUntilChanged(isEqual));
+  }
+
+  /**
+   * Emits whether the control is touched, starting with the current state, whenever it changes.
+   * Changes are seen as the control or one of its parents or children is marked, including through
+   * its Angular control.
+   */
+  get touched$(): Observable<boolean> {
+    return defer(() => merge(this.statusChanges, this._stateChanges).pipe(
+      map(() => this.touched),
+      startWith(this.touched)
+    )).pipe(distinctUntilChanged());
+  }
+
+  /**
+   * Emits whether the control is dirty, starting with the current state, whenever it changes.
+   * Changes are seen as the control or one of its parents or children is marked, including through
+   * its Angular control.
+   */
+  get dirty$(): Observable<boolean> {
+    return defer(() => merge(this.valueChanges, this._stateChanges).pipe(
+      map(() => this.dirty),
+      startWith(this.dirty)
+    )).pipe(distinctUntilChanged());
+  }
+
+  /**
+   * Emits whether the control is disabled, starting with the current state, whenever it changes.
+   */
+  get disabled$(): Observable<boolean> {
+    return this.status$.pipe(map(status => status === DISABLED), distinctUntilChanged());
+  }
+
+  /**
+   * Emits every change of the value, status, errors, touched or dirty state of the control. Unlike
+   * the other streams, the current state is not emitted on subscription.
+   */
+  get events$(): Observable<ControlEvent<this['value'], E>> {
+    return merge(
+      this.value$.pipe(skip(1), map(value => ({ type: 'value' as const, value }))),
+      this.status$.pipe(skip(1), map(status => ({ type: 'status' as const, status }))),
+      this.errors$.pipe(skip(1), map(errors => ({ type: 'errors' as const, errors }))),
+      this.touched$.pipe(skip(1), map(touched => ({ type: 'touched' as const, touched }))),
+      this.dirty$.pipe(skip(1), map(dirty => ({ type: 'dirty' as const, dirty })))
+    );
+  }
+
+  /**
+   * Collects the errors of the control and all of its descendants into a flat list, in the order of
+   * the controls in the form, for example to show a summary of the errors of a form.
+   *
+   * @param opts Configuration options that determine which controls are included:
+   * * `includeDisabled`: Whether to include disabled controls, false by default.
+   */
+  collectErrors(opts: CollectErrorsOptions = {}): ControlErrorEntry[] {
+    const entries: ControlErrorEntry[] = [];
+    collectErrorsOf(this, [], opts, entries);
+    return entries;
+  }
+
+  /**
+   * Emits the errors of the control and all of its descendants, as collected by `collectErrors`,
+   * starting with the current errors, whenever they change.
+   */
+  collectErrors$(opts: CollectErrorsOptions = {}): Observable<ControlErrorEntry[]> {
+    return defer(() => merge(this.statusChanges, this._stateChanges).pipe(
+      map(() => this.collectErrors(opts)),
+      startWith(this.collectErrors(opts))
+    )).pipe(distinctUntilChanged((a, b) =>
+      a.length === b.length && a.every((entry, i) => entry.control === b[i].control && isEqual(entry.errors, b[i].errors))
+    ));
+  }
+
+  /**
+   * The messages of the errors of the control, from the `ErrorMessageRegistry`. Errors without a
+   * message are left out.
+   */
+  get errorMessages(): string[] { return errorMessageRegistry().messagesFor(this); }
+
+  /**
+   * The message of the first error of the control that has one, or `null`.
+   */
+  get firstErrorMessage(): string | null { return this.errorMessages[0] ?? null; }
+
+  /**
+   * Emits the messages of the errors of the control, starting with the current messages, whenever
+   * they change.
+   */
+  get errorMessages$(): Observable<string[]> {
+    return defer(() => merge(this.errors$, errorMessageRegistry().changes)).pipe(
+      map(() => this.errorMessages),
+      distinctUntilChanged(isEqual)
+    );
+  }
+
+  /**
+   * The value that the control was created with, or the value it had when `rebaseInitialValue` was
+   * last called. Disabled children are included, as they are by `getRawValue`.
+   */
+  get initialValue(): this['value'] { return cloneValue(this._initialValue); }
+
+  /**
+   * Whether the value of the control, including disabled children, differs from its initial value.
+   * Unlike `dirty`, it goes back to false when the initial value is entered again.
+   */
+  get isChanged(): boolean { return !isEqual(rawValueOf(this), this._initialValue); }
+
+  /**
+   * Emits whether the value of the control differs from its initial value, starting with the
+   * current state, whenever it changes.
+   */
+  get changed$(): Observable<boolean> {
+    return defer(() => merge(this.valueChanges, this._rebased).pipe(
+      map(() => this.isChanged),
+      startWith(this.isChanged)
+    )).pipe(distinctUntilChanged());
+  }
+
+  /**
+   * Makes the current value the initial value of the control and all of its descendants, for
+   * example once the form has been saved.
+   */
+  rebaseInitialValue(): void {
+    this._initialValue = cloneValue(rawValueOf(this));
+    childrenOf(this).forEach(child => child.rebaseInitialValue());
+    this._rebased.next();
+  }
+
+  setParent(parent: ParentControl): void {
+    if (parent !== this._parent) this._removeAttachedErrors();
     this._parent = parent;
     this.ng.setParent(parent.ng);
+    notifyContextChange(this);
+  }
+
+  /**
+   * Registers a callback that is called whenever the parent or root of the control changes,
+   * including when the control is removed from its parent. Returns a function that unregisters it.
+   *
+   * @internal
+   */
+  _registerOnContextChange(fn: () => void): () => void {
+    this._onContextChange.push(fn);
+    return () => {
+      this._onContextChange = this._onContextChange.filter(other => other !== fn);
+    };
+  }
+
+  /**
+   * Removes the errors attached to the control by the validators of its parent, as it is leaving it.
+   */
+  private _removeAttachedErrors(): void {
+    const attached = this._parent?._childErrors.get(this);
+    if (!attached) return;
+
+    this._parent!._childErrors.delete(this);
+    replaceAttachedErrors(this, attached);
+  }
+
+  /**
+   * Unlinks the control from its parent once it has been removed from it.
+   *
+   * @internal
+   */
+  _detachFromParent(): void {
+    this._removeAttachedErrors();
+    this._parent = null;
+    notifyContextChange(this);
+  }
+
+  /**
+   * Takes a snapshot of the complete state of the control and its descendants: the values, the
+   * disabled, touched and dirty flags, the errors, and the children of every array and dictionary.
+   */
+  snapshot(): ControlSnapshot {
+    return takeSnapshot(this);
+  }
+
+  /**
+   * Restores the control and its descendants from a snapshot taken by `snapshot`. Array items and
+   * dictionary entries that the snapshot does not have are removed, and those that the form does
+   * not have are created with `createControl`. Children of a group that are missing from the
+   * snapshot are left as they are.
+   *
+   * @param snapshot The snapshot to restore.
+   *
+   * @param opts Configuration options that determine how the snapshot is restored:
+   * * `createControl`: Creates the missing children of arrays and dictionaries.
+   * * `emitEvent`: When true or not supplied (the default), the `statusChanges` and `valueChanges`
+   * observables emit events as the controls are restored.
+   */
+  restore(snapshot: ControlSnapshot, opts: RestoreOptions = {}): void {
+    restoreSnapshot(this, snapshot, opts);
+    this.ng.parent?.updateValueAndValidity({ emitEvent: opts.emitEvent });
   }
 
   abstract setValue(value: any, options?: Object): void;
   abstract patchValue(value: any, options?: Object): void;
   abstract reset(value?: any, options?: Object): void;
 
-  updateValueAndValidity(opts: { onlySelf?: boolean, emitEvent?: boolean } = {}) { return this.ng.updateValueAndValidity(opts); }
-  setErrors(errors: ValidationErrors | null, opts: { emitEvent?: boolean } = {}) { return this.ng.setErrors(errors, opts); }
+  updateValueAndValidity(opts: { onlySelf?: boolean, emitEvent?: boolean } = {}) {
+    this.ng.updateValueAndValidity(opts);
+    notifyStateChange(this, opts, false);
+  }
+  setErrors(errors: ValidationErrors | null, opts: { emitEvent?: boolean } = {}) {
+    this.ng.setErrors(errors, opts);
+    notifyStateChange(this, {}, false);
+  }
 
-  get(path: Array<string | number> | string) {
+  get(path: Array<string | number> | string): AbstractTypedControl | null {
     return _find(this, path, '.');
   }
 
+  getError<K extends keyof TypedValidationErrors<E> & string>(errorCode: K): TypedValidationErrors<E>[K] | null;
+  getError(errorCode: string, path: string[]): any;
   getError(errorCode: string, path?: string[]) { return this.ng.getError(errorCode, path); }
+  hasError(errorCode: keyof TypedValidationErrors<E> & string): boolean;
+  hasError(errorCode: string, path: string[]): boolean;
   hasError(errorCode: string, path?: string[]) { return this.ng.hasError(errorCode, path); }
 
   get root() {
@@ -243,19 +1284,90 @@ export abstract class AbstractTypedControl {
 
     return x;
   }
+
+  /**
+   * Enables the control while the rule returns true for the root of the form, and disables it
+   * otherwise. The rule is checked once the control has a parent, whenever the value of the root
+   * changes, and whenever the control is moved to another parent. While the control has no
+   * parent the rule is not checked, and the control keeps its state and value. Changes made by the
+   * rule do not trigger the rule again, so a rule that depends on the control itself cannot loop.
+   * Only one rule applies at a time, and passing `null` removes it.
+   *
+   * @param rule The rule, called with the root of the form.
+   *
+   * @param opts Configuration options that determine how the rule applies:
+   * * `resetTo`: The value that the control is reset to whenever the rule disables it.
+   * * `emitEvent`: When true or not supplied (the default), the `statusChanges` and `valueChanges`
+   * observables emit events when a change of the form enables or disables the control. Checks of
+   * the rule when it is set, or when the control is attached or moved, never emit events.
+   */
+  enabledWhen<R extends AbstractTypedControl>(rule: EnabledWhenRule<R> | null, opts: EnabledWhenOptions = {}): void {
+    this._enabledWhen?.subscription?.unsubscribe();
+    this._enabledWhen = rule ? { rule, opts, subscription: null, applying: false } : null;
+    if (!rule) return;
+
+    if (!this._enabledWhenRegistered) {
+      this._enabledWhenRegistered = true;
+      this._registerOnContextChange(() => this._watchEnabledWhen());
+    }
+    this._watchEnabledWhen();
+  }
+
+  private _watchEnabledWhen(): void {
+    const state = this._enabledWhen;
+    if (!state) return;
+
+    state.subscription?.unsubscribe();
+    state.subscription = null;
+
+    // The rule is written against the form, so it waits until the control is part of one.
+    if (!this.parent) return;
+
+    state.subscription = this.root.valueChanges.subscribe(() => this._applyEnabledWhen(state.opts.emitEvent));
+    this._applyEnabledWhen(false);
+  }
+
+  private _applyEnabledWhen(emitEvent: boolean = true): void {
+    const state = this._enabledWhen;
+    if (!state || state.applying) return;
+
+    const enabled = !!state.rule(this.root);
+    if (enabled === this.enabled) return;
+
+    state.applying = true;
+    try {
+      if (enabled) {
+        this.enable({ emitEvent });
+      } else {
+        if (state.opts.hasOwnProperty('resetTo')) this.reset(state.opts.resetTo, { emitEvent });
+        this.disable({ emitEvent });
+      }
+    } finally {
+      state.applying = false;
+    }
+  }
 }
 
-export class TypedFormArray<T extends AbstractTypedControl> extends AbstractTypedControl {
+export class TypedFormArray<
+  T extends AbstractTypedControl,
+  E extends ValidationErrors = ValidationErrors
+> extends AbstractTypedControl<E> {
   private _ng: FormArray;
   private _controls: T[];
 
+  /**
+   * Creates an item of the array, given the value that it is created for when there is one. With
+   * it, `setValue`, `patchValue` and `reset` add and remove items to match the length of the value.
+   */
+  itemFactory: ((value?: ValueType<T>) => T) | null;
+
   /**
    * Contains the result of merging synchronous validators into a single validator function
    * (combined using `Validators.compose`).
    *
    * @internal
    */
-  private _composedValidatorFn: TypedValidatorFn<TypedFormArray<T>>|null;
+  private _composedValidatorFn: TypedValidatorFn<any, E>|null;
 
   /**
    * Contains the result of merging asynchronous validators into a single validator function
@@ -263,7 +1375,7 @@ export class TypedFormArray<T extends AbstractTypedControl> extends AbstractType
    *
    * @internal
    */
-  private _composedAsyncValidatorFn: TypedAsyncValidatorFn<TypedFormArray<T>>|null;
+  private _composedAsyncValidatorFn: TypedAsyncValidatorFn<any, E>|null;
 
   /**
    * Synchronous validators as they were provided:
@@ -273,7 +1385,7 @@ export class TypedFormArray<T extends AbstractTypedControl> extends AbstractType
    *
    * @internal
    */
-  private _rawValidators: TypedValidatorFn<TypedFormArray<T>>|TypedValidatorFn<TypedFormArray<T>>[]|null;
+  private _rawValidators: TypedValidatorFn<any, E>|TypedValidatorFn<any, E>[]|null;
 
   /**
    * Asynchronous validators as they were provided:
@@ -284,29 +1396,64 @@ export class TypedFormArray<T extends AbstractTypedControl> extends AbstractType
    *
    * @internal
    */
-  private _rawAsyncValidators: TypedAsyncValidatorFn<TypedFormArray<T>>|TypedAsyncValidatorFn<TypedFormArray<T>>[]|null;
+  private _rawAsyncValidators: TypedAsyncValidatorFn<any, E>|TypedAsyncValidatorFn<any, E>[]|null;
 
   constructor(
     controls: T[],
-    validatorOrOpts?: TypedValidatorFn<TypedFormArray<T>> |
-      TypedValidatorFn<TypedFormArray<T>>[] |
-      TypedAbstractControlOptions<TypedFormArray<T>> |
+    validatorOrOpts?: TypedValidatorFn<TypedFormArray<NoInfer<T>, any>, E> |
+      TypedValidatorFn<TypedFormArray<NoInfer<T>, any>, NoInfer<E>>[] |
+      TypedFormArrayOptions<NoInfer<T>, E> |
       null,
-    asyncValidator?: TypedAsyncValidatorFn<TypedFormArray<T>> | TypedAsyncValidatorFn<TypedFormArray<T>>[] | null
+    asyncValidator?: TypedAsyncValidatorFn<TypedFormArray<NoInfer<T>, any>, E> |
+      TypedAsyncValidatorFn<TypedFormArray<NoInfer<T>, any>, NoInfer<E>>[] |
+      null
   ) {
     super();
     this._rawValidators = pickValidators(validatorOrOpts);
     this._rawAsyncValidators = pickAsyncValidators(asyncValidator, validatorOrOpts);
     this._composedValidatorFn = coerceToValidator(this._rawValidators);
     this._composedAsyncValidatorFn = coerceToAsyncValidator(this._rawAsyncValidators);
-    this._ng = new FormArray(
+    const adoptedNg = takeAdoptedNg<FormArray>();
+    this._ng = adoptedNg || new FormArray(
       controls.map(ctrl => ctrl.ng),
       { updateOn: toNgUpdateOn(validatorOrOpts) }
     );
-    this._ng.setValidators(toNgValidator(this, this._rawValidators));
-    this._ng.setAsyncValidators(toNgAsyncValidator(this, this._rawAsyncValidators));
-    this._ng.updateValueAndValidity({ emitEvent: false });
+    initNgValidators(
+      this,
+      !!adoptedNg,
+      () => this._composedValidatorFn,
+      toNgAsyncValidator(this, this._rawAsyncValidators)
+    );
+    notifyNgStateChanges(this);
     this._controls = controls;
+    this.itemFactory = isOptionsObj(validatorOrOpts) ? (validatorOrOpts as TypedFormArrayOptions<T, E>).itemFactory ?? null : null;
+    this._ng.updateValueAndValidity({ emitEvent: false });
+    controls.forEach(ctrl => ctrl.setParent(this));
+    initEnabledWhen(this, validatorOrOpts);
+    this._initialValue = cloneValue(rawValueOf(this));
+  }
+
+  /**
+   * Wraps an existing Angular `FormArray` in place, without recreating it or any of its children.
+   * Throws if the Angular control tree does not match the shape. The validators given are added
+   * to any that the Angular control already has, and `updateOn` is ignored.
+   */
+  static fromNg<T extends AbstractTypedControl, E extends ValidationErrors = ValidationErrors>(
+    ng: AbstractControl,
+    itemShape: ControlShape<T>,
+    validatorOrOpts?: TypedValidatorFn<TypedFormArray<NoInfer<T>, any>, E> |
+      TypedValidatorFn<TypedFormArray<NoInfer<T>, any>, NoInfer<E>>[] |
+      TypedFormArrayOptions<NoInfer<T>, E> |
+      null,
+    asyncValidator?: TypedAsyncValidatorFn<TypedFormArray<NoInfer<T>, any>, E> |
+      TypedAsyncValidatorFn<TypedFormArray<NoInfer<T>, any>, NoInfer<E>>[] |
+      null
+  ): TypedFormArray<T, E> {
+    const shape: AnyControlShape = { array: itemShape as AnyControlShape };
+    assertNgShape(ng, shape);
+
+    const items = (ng as FormArray).controls.map(ctrl => wrapNg(ctrl, shape.array) as T);
+    return adoptNg(ng, () => new TypedFormArray<T, E>(items, validatorOrOpts, asyncValidator));
   }
 
   get controls(): T[] { return this._controls; }
@@ -316,80 +1463,204 @@ export class TypedFormArray<T extends AbstractTypedControl> extends AbstractType
   get value(): ValueType<T>[] { return this.ng.value; }
   get valueChanges(): Observable<ValueType<T>[]> { return this.ng.valueChanges; }
 
-  get validator() { return this._composedValidatorFn; }
-  set validator(validatorFn: TypedValidatorFn<TypedFormArray<T>>|null) {
+  get validator(): TypedValidatorFn<any, E>|null { return this._composedValidatorFn; }
+  set validator(validatorFn: TypedValidatorFn<TypedFormArray<T, any>, E>|null) {
     this._rawValidators = this._composedValidatorFn = validatorFn;
   }
-  get asyncValidator() { return this._composedAsyncValidatorFn; }
-  set asyncValidator(asyncValidatorFn: TypedAsyncValidatorFn<TypedFormArray<T>>|null) {
+  get asyncValidator(): TypedAsyncValidatorFn<any, E>|null { return this._composedAsyncValidatorFn; }
+  set asyncValidator(asyncValidatorFn: TypedAsyncValidatorFn<TypedFormArray<T, any>, E>|null) {
     this._rawAsyncValidators = this._composedAsyncValidatorFn = asyncValidatorFn;
   }
 
-  setValidators(newValidator: TypedValidatorFn<TypedFormArray<T>> | TypedValidatorFn<TypedFormArray<T>>[] | null) {
+  setValidators(
+    newValidator: TypedValidatorFn<TypedFormArray<T, any>, E> |
+      TypedValidatorFn<TypedFormArray<T, any>, E>[] |
+      null
+  ) {
     this._rawValidators = newValidator;
     this._composedValidatorFn = coerceToValidator(newValidator);
-    this.ng.setValidators(toNgValidator(this, newValidator));
   }
 
   setAsyncValidators(
-    newAsyncValidator: TypedAsyncValidatorFn<TypedFormArray<T>> |
-      TypedAsyncValidatorFn<TypedFormArray<T>>[] |
+    newAsyncValidator: TypedAsyncValidatorFn<TypedFormArray<T, any>, E> |
+      TypedAsyncValidatorFn<TypedFormArray<T, any>, E>[] |
       null
   ) {
     this._rawAsyncValidators = newAsyncValidator;
     this._composedAsyncValidatorFn = coerceToAsyncValidator(newAsyncValidator);
-    this.ng.setAsyncValidators(toNgAsyncValidator(this, newAsyncValidator));
+    setNgAsyncValidators(this, toNgAsyncValidator(this, newAsyncValidator));
   }
 
   clearValidators() {
     this.validator = null;
-    this.ng.clearValidators();
   }
   clearAsyncValidators() {
     this.asyncValidator = null;
-    this.ng.clearAsyncValidators();
+    setNgAsyncValidators(this, null);
+  }
+
+  /**
+   * Adds validators to those the control has, leaving out any that it already has. The validators
+   * are compared by reference, so keep a reference to a validator to remove it again.
+   */
+  addValidators(validators: TypedValidatorFn<TypedFormArray<T, any>, E> | TypedValidatorFn<TypedFormArray<T, any>, E>[]) {
+    this.setValidators(withValidators(this._rawValidators, validators));
+  }
+  /**
+   * Removes validators from those the control has, comparing them by reference.
+   */
+  removeValidators(validators: TypedValidatorFn<TypedFormArray<T, any>, E> | TypedValidatorFn<TypedFormArray<T, any>, E>[]) {
+    this.setValidators(withoutValidators(this._rawValidators, validators));
+  }
+  /**
+   * Whether the control has the validator, compared by reference.
+   */
+  hasValidator(validator: TypedValidatorFn<TypedFormArray<T, any>, any>): boolean {
+    return validatorList(this._rawValidators).indexOf(validator) >= 0;
+  }
+
+  /**
+   * Retrieves a child control given the control's name or path, the returned control is typed
+   * according to the path.
+   *
+   * @param path A dot-delimited string or array of string/number values that define the path to the
+   * control.
+   */
+  get<P extends NodePath<{ array: T }, 8>>(path: P): NodeControlAtPath<{ array: T }, P>;
+  get<P extends string>(path: NodePathStringParam<{ array: T }, P>): NodeControlAtPath<{ array: T }, P>;
+  get(path: Array<string | number> | string): AbstractTypedControl | null {
+    return super.get(path);
   }
 
   at(index: number): T { return this.controls[index]; }
 
-  push(control: T): void {
+  /**
+   * A `trackBy` function for `*ngFor` that tracks the items of the array by their `id`, so that
+   * their DOM elements are kept when they are moved.
+   */
+  readonly trackBy = (index: number, control: T): number => control.id;
+
+  push(control: T, options: { emitEvent?: boolean } = {}): void {
     this._controls.push(control);
     control.setParent(this);
 
-    this.ng.push(control.ng);
+    this.ng.push(control.ng, options);
+  }
+
+  insert(index: number, control: T, options: { emitEvent?: boolean } = {}): void {
+    this._controls.splice(index, 0, control);
+    control.setParent(this);
+
+    this.ng.insert(index, control.ng, options);
+  }
+
+  removeAt(index: number, options: { emitEvent?: boolean } = {}): void {
+    this._controls.splice(index, 1).forEach(removed => removed._detachFromParent());
+    this.ng.removeAt(index, options);
+  }
+
+  setControl(index: number, control: T, options: { emitEvent?: boolean } = {}): void {
+    this._controls.splice(index, 1).forEach(removed => removed._detachFromParent());
+
+    if (control) {
+      this._controls.splice(index, 0, control);
+      control.setParent(this);
+    }
+
+    this.ng.setControl(index, control.ng, options);
+  }
+
+  /**
+   * Moves the item at index `from` to index `to`, shifting the items in between.
+   */
+  move(from: number, to: number, options: { emitEvent?: boolean } = {}): void {
+    const controls = this._controls.slice();
+    controls.splice(to, 0, ...controls.splice(from, 1));
+    this._replaceControls(controls, options);
+  }
+
+  /**
+   * Swaps the items at indexes `a` and `b`.
+   */
+  swap(a: number, b: number, options: { emitEvent?: boolean } = {}): void {
+    const controls = this._controls.slice();
+    [controls[a], controls[b]] = [controls[b], controls[a]];
+    this._replaceControls(controls, options);
+  }
+
+  /**
+   * Removes all of the items.
+   */
+  clear(options: { emitEvent?: boolean } = {}): void {
+    this._replaceControls([], options);
+  }
+
+  /**
+   * Removes every item that the predicate returns true for.
+   */
+  removeWhere(predicate: (control: T, index: number) => boolean, options: { emitEvent?: boolean } = {}): void {
+    this._replaceControls(this._controls.filter((control, index) => !predicate(control, index)), options);
+  }
+
+  /**
+   * Replaces all of the items with the given controls. Items that are given again are kept as they
+   * are.
+   */
+  replaceAll(controls: T[], options: { emitEvent?: boolean } = {}): void {
+    this._replaceControls(controls.slice(), options);
+  }
+
+  /**
+   * Sorts the items in place with the compare function, in the same way as `Array.sort`.
+   */
+  sort(compareFn: (a: T, b: T) => number, options: { emitEvent?: boolean } = {}): void {
+    this._replaceControls(this._controls.slice().sort(compareFn), options);
   }
 
-  insert(index: number, control: T): void {
-    this._controls.splice(index, 0, control);
-    control.setParent(this);
-
-    this.ng.insert(index, control.ng);
+  get length(): number { return this.controls.length; }
+  setValue(value: ValueType<T>[], options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    matchItemsTo(this, value);
+    this.ng.setValue(value, options);
+  }
+  patchValue(value: ValueType<T>[], options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    matchItemsTo(this, value, { removeMissing: false });
+    this.ng.patchValue(value, options);
   }
+  reset(value?: ValueType<T>[], options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    matchItemsTo(this, value);
+    this.ng.reset(value ?? [], options);
+    notifyStateChange(this, options, true);
+  }
+  getRawValue(): ValueType<T>[] { return this.ng.getRawValue(); }
 
-  removeAt(index: number): void {
-    this._controls.splice(index, 1);
-    this.ng.removeAt(index);
+  /**
+   * The value of the array when it differs from its initial value, otherwise `undefined`. Arrays
+   * are not split into the items that changed, since the positions of the items can change too.
+   */
+  getChangedValue(): ValueType<T>[] | undefined {
+    return this.isChanged ? this.value : undefined;
   }
 
-  setControl(index: number, control: T): void {
-    this._controls.splice(index, 1);
+  /**
+   * Replaces the items of the array and of the Angular `FormArray` together, so that the value and
+   * status are only updated and emitted once.
+   */
+  private _replaceControls(controls: T[], options: { emitEvent?: boolean }): void {
+    const removed = this._controls.filter(control => controls.indexOf(control) < 0);
+    const added = controls.filter(control => this._controls.indexOf(control) < 0);
 
-    if (control) {
-      this._controls.splice(index, 0, control);
-      control.setParent(this);
-    }
+    this._controls.splice(0, this._controls.length, ...controls);
+    this.ng.clear({ emitEvent: false });
+    controls.forEach(control => this.ng.push(control.ng, { emitEvent: false }));
 
-    this.ng.setControl(index, control.ng);
-  }
+    removed.forEach(control => control._detachFromParent());
+    added.forEach(control => control.setParent(this));
 
-  get length(): number { return this.controls.length; }
-  setValue(value: ValueType<T>[], options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void { this.ng.setValue(value, options); }
-  patchValue(value: ValueType<T>[], options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void { this.ng.patchValue(value, options); }
-  reset(value: ValueType<T>[] = [], options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void { this.ng.reset(value, options); }
-  getRawValue(): ValueType<T>[] { return this.ng.getRawValue(); }
+    this.ng.updateValueAndValidity({ emitEvent: options.emitEvent });
+  }
 }
 
-export class TypedFormControl<T> extends AbstractTypedControl {
+export class TypedFormControl<T, E extends ValidationErrors = ValidationErrors> extends AbstractTypedControl<E> {
   private _ng: FormControl;
 
   /**
@@ -398,7 +1669,7 @@ export class TypedFormControl<T> extends AbstractTypedControl {
    *
    * @internal
    */
-  private _composedValidatorFn: TypedValidatorFn<TypedFormControl<T>>|null;
+  private _composedValidatorFn: TypedValidatorFn<any, E>|null;
 
   /**
    * Contains the result of merging asynchronous validators into a single validator function
@@ -406,7 +1677,7 @@ export class TypedFormControl<T> extends AbstractTypedControl {
    *
    * @internal
    */
-  private _composedAsyncValidatorFn: TypedAsyncValidatorFn<TypedFormControl<T>>|null;
+  private _composedAsyncValidatorFn: TypedAsyncValidatorFn<any, E>|null;
 
   /**
    * Synchronous validators as they were provided:
@@ -416,7 +1687,7 @@ export class TypedFormControl<T> extends AbstractTypedControl {
    *
    * @internal
    */
-  private _rawValidators: TypedValidatorFn<TypedFormControl<T>>|TypedValidatorFn<TypedFormControl<T>>[]|null;
+  private _rawValidators: TypedValidatorFn<any, E>|TypedValidatorFn<any, E>[]|null;
 
   /**
    * Asynchronous validators as they were provided:
@@ -427,25 +1698,55 @@ export class TypedFormControl<T> extends AbstractTypedControl {
    *
    * @internal
    */
-  private _rawAsyncValidators: TypedAsyncValidatorFn<TypedFormControl<T>>|TypedAsyncValidatorFn<TypedFormControl<T>>[]|null;
+  private _rawAsyncValidators: TypedAsyncValidatorFn<any, E>|TypedAsyncValidatorFn<any, E>[]|null;
 
   constructor(
     formState: T | null = null,
-    validatorOrOpts?: TypedValidatorFn<TypedFormControl<T>> |
-      TypedValidatorFn<TypedFormControl<T>>[] |
-      TypedAbstractControlOptions<TypedFormControl<T>> |
+    validatorOrOpts?: TypedValidatorFn<TypedFormControl<NoInfer<T>, any>, E> |
+      TypedValidatorFn<TypedFormControl<NoInfer<T>, any>, NoInfer<E>>[] |
+      TypedAbstractControlOptions<TypedFormControl<NoInfer<T>, any>, E> |
       null,
-    asyncValidator?: TypedAsyncValidatorFn<TypedFormControl<T>> | TypedAsyncValidatorFn<TypedFormControl<T>>[] | null
+    asyncValidator?: TypedAsyncValidatorFn<TypedFormControl<NoInfer<T>, any>, E> |
+      TypedAsyncValidatorFn<TypedFormControl<NoInfer<T>, any>, NoInfer<E>>[] |
+      null
   ) {
     super();
     this._rawValidators = pickValidators(validatorOrOpts);
     this._rawAsyncValidators = pickAsyncValidators(asyncValidator, validatorOrOpts);
     this._composedValidatorFn = coerceToValidator(this._rawValidators);
     this._composedAsyncValidatorFn = coerceToAsyncValidator(this._rawAsyncValidators);
-    this._ng = new FormControl(formState, { updateOn: toNgUpdateOn(validatorOrOpts) });
-    this._ng.setValidators(toNgValidator(this, this._rawValidators));
-    this._ng.setAsyncValidators(toNgAsyncValidator(this, this._rawAsyncValidators));
+    const adoptedNg = takeAdoptedNg<FormControl>();
+    this._ng = adoptedNg || new FormControl(formState, { updateOn: toNgUpdateOn(validatorOrOpts) });
+    initNgValidators(
+      this,
+      !!adoptedNg,
+      () => this._composedValidatorFn,
+      toNgAsyncValidator(this, this._rawAsyncValidators)
+    );
+    notifyNgStateChanges(this);
     this._ng.updateValueAndValidity({ emitEvent: false });
+    initEnabledWhen(this, validatorOrOpts);
+    this._initialValue = cloneValue(rawValueOf(this));
+  }
+
+  /**
+   * Wraps an existing Angular `FormControl` in place, without recreating it or any of its children.
+   * Throws if the Angular control tree does not match the shape. The validators given are added
+   * to any that the Angular control already has, and `updateOn` is ignored.
+   */
+  static fromNg<T, E extends ValidationErrors = ValidationErrors>(
+    ng: AbstractControl,
+    validatorOrOpts?: TypedValidatorFn<TypedFormControl<NoInfer<T>, any>, E> |
+      TypedValidatorFn<TypedFormControl<NoInfer<T>, any>, NoInfer<E>>[] |
+      TypedAbstractControlOptions<TypedFormControl<NoInfer<T>, any>, E> |
+      null,
+    asyncValidator?: TypedAsyncValidatorFn<TypedFormControl<NoInfer<T>, any>, E> |
+      TypedAsyncValidatorFn<TypedFormControl<NoInfer<T>, any>, NoInfer<E>>[] |
+      null
+  ): TypedFormControl<T, E> {
+    assertNgShape(ng, 'control');
+
+    return adoptNg(ng, () => new TypedFormControl<T, E>(null, validatorOrOpts, asyncValidator));
   }
 
   get ng(): FormControl { return this._ng; }
@@ -453,38 +1754,60 @@ export class TypedFormControl<T> extends AbstractTypedControl {
   get value(): T { return this.ng.value; }
   get valueChanges(): Observable<T> { return this.ng.valueChanges; }
 
-  get validator() { return this._composedValidatorFn; }
-  set validator(validatorFn: TypedValidatorFn<TypedFormControl<T>>|null) {
+  get validator(): TypedValidatorFn<any, E>|null { return this._composedValidatorFn; }
+  set validator(validatorFn: TypedValidatorFn<TypedFormControl<T, any>, E>|null) {
     this._rawValidators = this._composedValidatorFn = validatorFn;
   }
-  get asyncValidator() { return this._composedAsyncValidatorFn; }
-  set asyncValidator(asyncValidatorFn: TypedAsyncValidatorFn<TypedFormControl<T>>|null) {
+  get asyncValidator(): TypedAsyncValidatorFn<any, E>|null { return this._composedAsyncValidatorFn; }
+  set asyncValidator(asyncValidatorFn: TypedAsyncValidatorFn<TypedFormControl<T, any>, E>|null) {
     this._rawAsyncValidators = this._composedAsyncValidatorFn = asyncValidatorFn;
   }
 
-  setValidators(newValidator: TypedValidatorFn<TypedFormControl<T>> | TypedValidatorFn<TypedFormControl<T>>[] | null) {
+  setValidators(
+    newValidator: TypedValidatorFn<TypedFormControl<T, any>, E> |
+      TypedValidatorFn<TypedFormControl<T, any>, E>[] |
+      null
+  ) {
     this._rawValidators = newValidator;
     this._composedValidatorFn = coerceToValidator(newValidator);
-    this.ng.setValidators(toNgValidator(this, newValidator));
   }
 
   setAsyncValidators(
-    newAsyncValidator: TypedAsyncValidatorFn<TypedFormControl<T>> |
-      TypedAsyncValidatorFn<TypedFormControl<T>>[] |
+    newAsyncValidator: TypedAsyncValidatorFn<TypedFormControl<T, any>, E> |
+      TypedAsyncValidatorFn<TypedFormControl<T, any>, E>[] |
       null
   ) {
     this._rawAsyncValidators = newAsyncValidator;
     this._composedAsyncValidatorFn = coerceToAsyncValidator(newAsyncValidator);
-    this.ng.setAsyncValidators(toNgAsyncValidator(this, newAsyncValidator));
+    setNgAsyncValidators(this, toNgAsyncValidator(this, newAsyncValidator));
   }
 
   clearValidators() {
     this.validator = null;
-    this.ng.clearValidators();
   }
   clearAsyncValidators() {
     this.asyncValidator = null;
-    this.ng.clearAsyncValidators();
+    setNgAsyncValidators(this, null);
+  }
+
+  /**
+   * Adds validators to those the control has, leaving out any that it already has. The validators
+   * are compared by reference, so keep a reference to a validator to remove it again.
+   */
+  addValidators(validators: TypedValidatorFn<TypedFormControl<T, any>, E> | TypedValidatorFn<TypedFormControl<T, any>, E>[]) {
+    this.setValidators(withValidators(this._rawValidators, validators));
+  }
+  /**
+   * Removes validators from those the control has, comparing them by reference.
+   */
+  removeValidators(validators: TypedValidatorFn<TypedFormControl<T, any>, E> | TypedValidatorFn<TypedFormControl<T, any>, E>[]) {
+    this.setValidators(withoutValidators(this._rawValidators, validators));
+  }
+  /**
+   * Whether the control has the validator, compared by reference.
+   */
+  hasValidator(validator: TypedValidatorFn<TypedFormControl<T, any>, any>): boolean {
+    return validatorList(this._rawValidators).indexOf(validator) >= 0;
   }
 
   setValue(
@@ -511,14 +1834,28 @@ export class TypedFormControl<T> extends AbstractTypedControl {
     this.ng.patchValue(value, options);
   }
 
-  reset(formState: T | null = null, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void { this.ng.reset(formState, options); }
+  reset(formState: T | null = null, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    this.ng.reset(formState, options);
+    notifyStateChange(this, options, false);
+  }
   registerOnChange(fn: Function): void { this.ng.registerOnChange(fn); }
   registerOnDisabledChange(fn: (isDisabled: boolean) => void): void { this.ng.registerOnDisabledChange(fn); }
 }
 
-export class TypedFormDictionary<T extends AbstractTypedControl> extends AbstractTypedControl {
+export class TypedFormDictionary<
+  T extends AbstractTypedControl,
+  K extends string = string,
+  E extends ValidationErrors = ValidationErrors
+> extends AbstractTypedControl<E> {
   private _ng: FormGroup;
-  private _controls: Record<string, T>;
+  private _controls: Record<K, T>;
+
+  /**
+   * Creates an entry of the dictionary, given its key and the value that it is created for when
+   * there is one. With it, `setValue` and `reset` add and remove entries to match the keys of the
+   * value, and `patchValue` adds the entries that are missing.
+   */
+  entryFactory: ((key: K, value?: ValueType<T>) => T) | null;
 
   /**
    * Contains the result of merging synchronous validators into a single validator function
@@ -526,7 +1863,7 @@ export class TypedFormDictionary<T extends AbstractTypedControl> extends Abstrac
    *
    * @internal
    */
-  private _composedValidatorFn: TypedValidatorFn<TypedFormDictionary<T>>|null;
+  private _composedValidatorFn: TypedValidatorFn<any, E>|null;
 
   /**
    * Contains the result of merging asynchronous validators into a single validator function
@@ -534,7 +1871,7 @@ export class TypedFormDictionary<T extends AbstractTypedControl> extends Abstrac
    *
    * @internal
    */
-  private _composedAsyncValidatorFn: TypedAsyncValidatorFn<TypedFormDictionary<T>>|null;
+  private _composedAsyncValidatorFn: TypedAsyncValidatorFn<any, E>|null;
 
   /**
    * Synchronous validators as they were provided:
@@ -544,7 +1881,7 @@ export class TypedFormDictionary<T extends AbstractTypedControl> extends Abstrac
    *
    * @internal
    */
-  private _rawValidators: TypedValidatorFn<TypedFormDictionary<T>>|TypedValidatorFn<TypedFormDictionary<T>>[]|null;
+  private _rawValidators: TypedValidatorFn<any, E>|TypedValidatorFn<any, E>[]|null;
 
   /**
    * Asynchronous validators as they were provided:
@@ -555,75 +1892,147 @@ export class TypedFormDictionary<T extends AbstractTypedControl> extends Abstrac
    *
    * @internal
    */
-  private _rawAsyncValidators: TypedAsyncValidatorFn<TypedFormDictionary<T>>|TypedAsyncValidatorFn<TypedFormDictionary<T>>[]|null;
+  private _rawAsyncValidators: TypedAsyncValidatorFn<any, E>|TypedAsyncValidatorFn<any, E>[]|null;
 
   constructor(
     controls: Record<string, NotUnion<T>>,
-    validatorOrOpts?: TypedValidatorFn<TypedFormDictionary<T>> |
-      TypedValidatorFn<TypedFormDictionary<T>>[] |
-      TypedAbstractControlOptions<TypedFormDictionary<T>> |
+    validatorOrOpts?: TypedValidatorFn<TypedFormDictionary<NoInfer<T>, any, any>, E> |
+      TypedValidatorFn<TypedFormDictionary<NoInfer<T>, any, any>, NoInfer<E>>[] |
+      TypedFormDictionaryOptions<NoInfer<T>, NoInfer<K>, E> |
       null,
-    asyncValidator?: TypedAsyncValidatorFn<TypedFormDictionary<T>> | TypedAsyncValidatorFn<TypedFormDictionary<T>>[] | null
+    asyncValidator?: TypedAsyncValidatorFn<TypedFormDictionary<NoInfer<T>, any, any>, E> |
+      TypedAsyncValidatorFn<TypedFormDictionary<NoInfer<T>, any, any>, NoInfer<E>>[] |
+      null
   ) {
     super();
     this._rawValidators = pickValidators(validatorOrOpts);
     this._rawAsyncValidators = pickAsyncValidators(asyncValidator, validatorOrOpts);
     this._composedValidatorFn = coerceToValidator(this._rawValidators);
     this._composedAsyncValidatorFn = coerceToAsyncValidator(this._rawAsyncValidators);
-    this._ng = new FormGroup(
-      fromEntries(Object.entries(controls).map(([key, ctrl]) => [key, ctrl.ng] as [string, AbstractControl])),
+    const adoptedNg = takeAdoptedNg<FormGroup>();
+    this._ng = adoptedNg || new FormGroup(
+      fromEntries(Object.entries<T>(controls as Record<string, T>).map(([key, ctrl]) => [key, ctrl.ng] as [string, AbstractControl])),
       { updateOn: toNgUpdateOn(validatorOrOpts) }
     );
-    this._ng.setValidators(toNgValidator(this, this._rawValidators));
-    this._ng.setAsyncValidators(toNgAsyncValidator(this, this._rawAsyncValidators));
+    initNgValidators(
+      this,
+      !!adoptedNg,
+      () => this._composedValidatorFn,
+      toNgAsyncValidator(this, this._rawAsyncValidators)
+    );
+    notifyNgStateChanges(this);
+    this._controls = controls as Record<K, T>;
+    this.entryFactory = isOptionsObj(validatorOrOpts)
+      ? (validatorOrOpts as TypedFormDictionaryOptions<T, K, E>).entryFactory ?? null
+      : null;
     this._ng.updateValueAndValidity({ emitEvent: false });
-    this._controls = controls;
+    Object.values<T>(this._controls).forEach(ctrl => ctrl.setParent(this));
+    initEnabledWhen(this, validatorOrOpts);
+    this._initialValue = cloneValue(rawValueOf(this));
+  }
+
+  /**
+   * Wraps an existing Angular `FormGroup` in place, without recreating it or any of its children.
+   * Throws if the Angular control tree does not match the shape. The validators given are added
+   * to any that the Angular control already has, and `updateOn` is ignored.
+   */
+  static fromNg<T extends AbstractTypedControl, K extends string = string, E extends ValidationErrors = ValidationErrors>(
+    ng: AbstractControl,
+    entryShape: ControlShape<T>,
+    validatorOrOpts?: TypedValidatorFn<TypedFormDictionary<NoInfer<T>, any, any>, E> |
+      TypedValidatorFn<TypedFormDictionary<NoInfer<T>, any, any>, NoInfer<E>>[] |
+      TypedFormDictionaryOptions<NoInfer<T>, NoInfer<K>, E> |
+      null,
+    asyncValidator?: TypedAsyncValidatorFn<TypedFormDictionary<NoInfer<T>, any, any>, E> |
+      TypedAsyncValidatorFn<TypedFormDictionary<NoInfer<T>, any, any>, NoInfer<E>>[] |
+      null
+  ): TypedFormDictionary<T, K, E> {
+    const shape: AnyControlShape = { dictionary: entryShape as AnyControlShape };
+    assertNgShape(ng, shape);
+
+    const entries = wrapNgChildren(ng as FormGroup, () => shape.dictionary) as Record<K, NotUnion<T>>;
+    return adoptNg(ng, () => new TypedFormDictionary<T, K, E>(entries, validatorOrOpts, asyncValidator));
   }
 
-  get controls(): Record<string, T> {
+  get controls(): Record<K, T> {
     return this._controls;
   }
 
   get ng(): FormGroup { return this._ng; }
 
-  get value(): Record<string, ValueType<T>> { return this.ng.value; }
-  get valueChanges(): Observable<Record<string, ValueType<T>>> { return this.ng.valueChanges; }
+  get value(): Record<K, ValueType<T>> { return this.ng.value; }
+  get valueChanges(): Observable<Record<K, ValueType<T>>> { return this.ng.valueChanges; }
 
-  get validator() { return this._composedValidatorFn; }
-  set validator(validatorFn: TypedValidatorFn<TypedFormDictionary<T>>|null) {
+  get validator(): TypedValidatorFn<any, E>|null { return this._composedValidatorFn; }
+  set validator(validatorFn: TypedValidatorFn<TypedFormDictionary<T, K, any>, E>|null) {
     this._rawValidators = this._composedValidatorFn = validatorFn;
   }
-  get asyncValidator() { return this._composedAsyncValidatorFn; }
-  set asyncValidator(asyncValidatorFn: TypedAsyncValidatorFn<TypedFormDictionary<T>>|null) {
+  get asyncValidator(): TypedAsyncValidatorFn<any, E>|null { return this._composedAsyncValidatorFn; }
+  set asyncValidator(asyncValidatorFn: TypedAsyncValidatorFn<TypedFormDictionary<T, K, any>, E>|null) {
     this._rawAsyncValidators = this._composedAsyncValidatorFn = asyncValidatorFn;
   }
 
-  setValidators(newValidator: TypedValidatorFn<TypedFormDictionary<T>> | TypedValidatorFn<TypedFormDictionary<T>>[] | null) {
+  setValidators(
+    newValidator: TypedValidatorFn<TypedFormDictionary<T, K, any>, E> |
+      TypedValidatorFn<TypedFormDictionary<T, K, any>, E>[] |
+      null
+  ) {
     this._rawValidators = newValidator;
     this._composedValidatorFn = coerceToValidator(newValidator);
-    this.ng.setValidators(toNgValidator(this, newValidator));
   }
 
   setAsyncValidators(
-    newAsyncValidator: TypedAsyncValidatorFn<TypedFormDictionary<T>> |
-      TypedAsyncValidatorFn<TypedFormDictionary<T>>[] |
+    newAsyncValidator: TypedAsyncValidatorFn<TypedFormDictionary<T, K, any>, E> |
+      TypedAsyncValidatorFn<TypedFormDictionary<T, K, any>, E>[] |
       null
   ) {
     this._rawAsyncValidators = newAsyncValidator;
     this._composedAsyncValidatorFn = coerceToAsyncValidator(newAsyncValidator);
-    this.ng.setAsyncValidators(toNgAsyncValidator(this, newAsyncValidator));
+    setNgAsyncValidators(this, toNgAsyncValidator(this, newAsyncValidator));
   }
 
   clearValidators() {
     this.validator = null;
-    this.ng.clearValidators();
   }
   clearAsyncValidators() {
     this.asyncValidator = null;
-    this.ng.clearAsyncValidators();
+    setNgAsyncValidators(this, null);
+  }
+
+  /**
+   * Adds validators to those the control has, leaving out any that it already has. The validators
+   * are compared by reference, so keep a reference to a validator to remove it again.
+   */
+  addValidators(validators: TypedValidatorFn<TypedFormDictionary<T, K, any>, E> | TypedValidatorFn<TypedFormDictionary<T, K, any>, E>[]) {
+    this.setValidators(withValidators(this._rawValidators, validators));
+  }
+  /**
+   * Removes validators from those the control has, comparing them by reference.
+   */
+  removeValidators(validators: TypedValidatorFn<TypedFormDictionary<T, K, any>, E> | TypedValidatorFn<TypedFormDictionary<T, K, any>, E>[]) {
+    this.setValidators(withoutValidators(this._rawValidators, validators));
+  }
+  /**
+   * Whether the control has the validator, compared by reference.
+   */
+  hasValidator(validator: TypedValidatorFn<TypedFormDictionary<T, K, any>, any>): boolean {
+    return validatorList(this._rawValidators).indexOf(validator) >= 0;
+  }
+
+  /**
+   * Retrieves a child control given the control's name or path, the returned control is typed
+   * according to the path.
+   *
+   * @param path A dot-delimited string or array of string/number values that define the path to the
+   * control.
+   */
+  get<P extends NodePath<{ dictionary: T, key: K }, 8>>(path: P): NodeControlAtPath<{ dictionary: T, key: K }, P>;
+  get<P extends string>(path: NodePathStringParam<{ dictionary: T, key: K }, P>): NodeControlAtPath<{ dictionary: T, key: K }, P>;
+  get(path: Array<string | number> | string): AbstractTypedControl | null {
+    return super.get(path);
   }
 
-  registerControl(name: string, control: T): T {
+  registerControl(name: K, control: T): T {
     if (this._controls[name]) {
       return this._controls[name];
     }
@@ -635,38 +2044,62 @@ export class TypedFormDictionary<T extends AbstractTypedControl> extends Abstrac
     return control;
   }
 
-  addControl(name: string, control: T): void {
+  addControl(name: K, control: T, options: { emitEvent?: boolean } = {}): void {
     if (!this._controls[name]) {
       this._controls[name] = control;
       control.setParent(this);
     }
 
-    this.ng.addControl(name, control.ng);
+    this.ng.addControl(name, control.ng, options);
   }
 
-  removeControl(name: string): void {
+  removeControl(name: K, options: { emitEvent?: boolean } = {}): void {
+    this._controls[name]?._detachFromParent();
     delete (this._controls[name]);
-    this.ng.removeControl(name);
+    this.ng.removeControl(name, options);
   }
 
-  setControl(name: string, control: T): void {
+  setControl(name: K, control: T, options: { emitEvent?: boolean } = {}): void {
+    this._controls[name]?._detachFromParent();
     delete (this._controls[name]);
     if (control) {
       this._controls[name] = control;
       control.setParent(this);
     }
 
-    this.ng.setControl(name, control.ng);
+    this.ng.setControl(name, control.ng, options);
   }
 
   contains(controlName: string): boolean { return this.ng.contains(controlName); }
-  setValue(value: Record<string, ValueType<T>>, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void { this.ng.setValue(value, options); }
-  patchValue(value: Partial<Record<string, ValueType<T>>>, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void { this.ng.patchValue(value, options); }
-  reset(value: Partial<Record<string, ValueType<T>>> | {} = {}, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void { this.ng.reset(value, options); }
-  getRawValue(): Record<string, ValueType<T>> { return this.ng.getRawValue(); }
+  setValue(value: Record<K, ValueType<T>>, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    matchItemsTo(this, value);
+    this.ng.setValue(value, options);
+  }
+  patchValue(value: Partial<Record<K, ValueType<T>>>, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    matchItemsTo(this, value, { removeMissing: false });
+    this.ng.patchValue(value, options);
+  }
+  reset(value?: Partial<Record<K, ValueType<T>>>, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    matchItemsTo(this, value);
+    this.ng.reset(value ?? {}, options);
+    notifyStateChange(this, options, true);
+  }
+  getRawValue(): Record<K, ValueType<T>> { return this.ng.getRawValue(); }
+
+  /**
+   * The entries that differ from the initial value of the dictionary, including the entries added
+   * since. Entries that are groups or dictionaries only have the keys that changed. Removed entries
+   * are not included, `isChanged` is true when there are any.
+   */
+  getChangedValue(): Partial<Record<K, ChangedValue<T>>> {
+    return changedValueOf(this, this._initialValue);
+  }
 }
 
-export class TypedFormGroup<T extends { [K in keyof T]: AbstractTypedControl }> extends AbstractTypedControl {
+export class TypedFormGroup<
+  T extends { [K in keyof T]: AbstractTypedControl },
+  E extends ValidationErrors = ValidationErrors
+> extends AbstractTypedControl<E> {
   private _ng: FormGroup;
   private _controls: T;
 
@@ -676,7 +2109,7 @@ export class TypedFormGroup<T extends { [K in keyof T]: AbstractTypedControl }>
    *
    * @internal
    */
-  private _composedValidatorFn: TypedValidatorFn<TypedFormGroup<T>>|null;
+  private _composedValidatorFn: TypedValidatorFn<any, E>|null;
 
   /**
    * Contains the result of merging asynchronous validators into a single validator function
@@ -684,7 +2117,7 @@ export class TypedFormGroup<T extends { [K in keyof T]: AbstractTypedControl }>
    *
    * @internal
    */
-  private _composedAsyncValidatorFn: TypedAsyncValidatorFn<TypedFormGroup<T>>|null;
+  private _composedAsyncValidatorFn: TypedAsyncValidatorFn<any, E>|null;
 
   /**
    * Synchronous validators as they were provided:
@@ -694,7 +2127,7 @@ export class TypedFormGroup<T extends { [K in keyof T]: AbstractTypedControl }>
    *
    * @internal
    */
-  private _rawValidators: TypedValidatorFn<TypedFormGroup<T>>|TypedValidatorFn<TypedFormGroup<T>>[]|null;
+  private _rawValidators: TypedValidatorFn<any, E>|TypedValidatorFn<any, E>[]|null;
 
   /**
    * Asynchronous validators as they were provided:
@@ -705,29 +2138,63 @@ export class TypedFormGroup<T extends { [K in keyof T]: AbstractTypedControl }>
    *
    * @internal
    */
-  private _rawAsyncValidators: TypedAsyncValidatorFn<TypedFormGroup<T>>|TypedAsyncValidatorFn<TypedFormGroup<T>>[]|null;
+  private _rawAsyncValidators: TypedAsyncValidatorFn<any, E>|TypedAsyncValidatorFn<any, E>[]|null;
 
   constructor(
     controls: T,
-    validatorOrOpts?: TypedValidatorFn<TypedFormGroup<T>> |
-      TypedValidatorFn<TypedFormGroup<T>>[] |
-      TypedAbstractControlOptions<TypedFormGroup<T>> |
+    validatorOrOpts?: TypedValidatorFn<TypedFormGroup<NoInfer<T>, any>, E> |
+      TypedValidatorFn<TypedFormGroup<NoInfer<T>, any>, NoInfer<E>>[] |
+      TypedAbstractControlOptions<TypedFormGroup<NoInfer<T>, any>, E> |
       null,
-    asyncValidator?: TypedAsyncValidatorFn<TypedFormGroup<T>> | TypedAsyncValidatorFn<TypedFormGroup<T>>[] | null
+    asyncValidator?: TypedAsyncValidatorFn<TypedFormGroup<NoInfer<T>, any>, E> |
+      TypedAsyncValidatorFn<TypedFormGroup<NoInfer<T>, any>, NoInfer<E>>[] |
+      null
   ) {
     super();
     this._rawValidators = pickValidators(validatorOrOpts);
     this._rawAsyncValidators = pickAsyncValidators(asyncValidator, validatorOrOpts);
     this._composedValidatorFn = coerceToValidator(this._rawValidators);
     this._composedAsyncValidatorFn = coerceToAsyncValidator(this._rawAsyncValidators);
-    this._ng = new FormGroup(
+    const adoptedNg = takeAdoptedNg<FormGroup>();
+    this._ng = adoptedNg || new FormGroup(
       fromEntries(Object.entries(controls).map(([key, ctrl]) => [key, (ctrl as AbstractTypedControl).ng] as [string, AbstractControl])),
       { updateOn: toNgUpdateOn(validatorOrOpts) }
     );
-    this._ng.setValidators(toNgValidator(this, this._rawValidators));
-    this._ng.setAsyncValidators(toNgAsyncValidator(this, this._rawAsyncValidators));
-    this._ng.updateValueAndValidity({ emitEvent: false });
+    initNgValidators(
+      this,
+      !!adoptedNg,
+      () => this._composedValidatorFn,
+      toNgAsyncValidator(this, this._rawAsyncValidators)
+    );
+    notifyNgStateChanges(this);
     this._controls = controls;
+    this._ng.updateValueAndValidity({ emitEvent: false });
+    Object.values<AbstractTypedControl>(controls).forEach(ctrl => ctrl.setParent(this));
+    initEnabledWhen(this, validatorOrOpts);
+    this._initialValue = cloneValue(rawValueOf(this));
+  }
+
+  /**
+   * Wraps an existing Angular `FormGroup` in place, without recreating it or any of its children.
+   * Throws if the Angular control tree does not match the shape. The validators given are added
+   * to any that the Angular control already has, and `updateOn` is ignored.
+   */
+  static fromNg<T extends { [K in keyof T]: AbstractTypedControl }, E extends ValidationErrors = ValidationErrors>(
+    ng: AbstractControl,
+    shape: { [K in keyof T]: ControlShape<T[K]> },
+    validatorOrOpts?: TypedValidatorFn<TypedFormGroup<NoInfer<T>, any>, E> |
+      TypedValidatorFn<TypedFormGroup<NoInfer<T>, any>, NoInfer<E>>[] |
+      TypedAbstractControlOptions<TypedFormGroup<NoInfer<T>, any>, E> |
+      null,
+    asyncValidator?: TypedAsyncValidatorFn<TypedFormGroup<NoInfer<T>, any>, E> |
+      TypedAsyncValidatorFn<TypedFormGroup<NoInfer<T>, any>, NoInfer<E>>[] |
+      null
+  ): TypedFormGroup<T, E> {
+    const groupShape = shape as Record<string, AnyControlShape>;
+    assertNgShape(ng, { group: groupShape });
+
+    const controls = wrapNgChildren(ng as FormGroup, key => groupShape[key]) as unknown as T;
+    return adoptNg(ng, () => new TypedFormGroup<T, E>(controls, validatorOrOpts, asyncValidator));
   }
 
   get controls(): T {
@@ -739,41 +2206,77 @@ export class TypedFormGroup<T extends { [K in keyof T]: AbstractTypedControl }>
   get value(): ValueType<T> { return this.ng.value; }
   get valueChanges(): Observable<ValueType<T>> { return this.ng.valueChanges; }
 
-  get validator() { return this._composedValidatorFn; }
-  set validator(validatorFn: TypedValidatorFn<TypedFormGroup<T>>|null) {
+  get validator(): TypedValidatorFn<any, E>|null { return this._composedValidatorFn; }
+  set validator(validatorFn: TypedValidatorFn<TypedFormGroup<T, any>, E>|null) {
     this._rawValidators = this._composedValidatorFn = validatorFn;
   }
-  get asyncValidator() { return this._composedAsyncValidatorFn; }
-  set asyncValidator(asyncValidatorFn: TypedAsyncValidatorFn<TypedFormGroup<T>>|null) {
+  get asyncValidator(): TypedAsyncValidatorFn<any, E>|null { return this._composedAsyncValidatorFn; }
+  set asyncValidator(asyncValidatorFn: TypedAsyncValidatorFn<TypedFormGroup<T, any>, E>|null) {
     this._rawAsyncValidators = this._composedAsyncValidatorFn = asyncValidatorFn;
   }
 
-  setValidators(newValidator: TypedValidatorFn<TypedFormGroup<T>> | TypedValidatorFn<TypedFormGroup<T>>[] | null) {
+  setValidators(
+    newValidator: TypedValidatorFn<TypedFormGroup<T, any>, E> |
+      TypedValidatorFn<TypedFormGroup<T, any>, E>[] |
+      null
+  ) {
     this._rawValidators = newValidator;
     this._composedValidatorFn = coerceToValidator(newValidator);
-    this.ng.setValidators(toNgValidator(this, newValidator));
   }
 
   setAsyncValidators(
-    newAsyncValidator: TypedAsyncValidatorFn<TypedFormGroup<T>> |
-      TypedAsyncValidatorFn<TypedFormGroup<T>>[] |
+    newAsyncValidator: TypedAsyncValidatorFn<TypedFormGroup<T, any>, E> |
+      TypedAsyncValidatorFn<TypedFormGroup<T, any>, E>[] |
       null
   ) {
     this._rawAsyncValidators = newAsyncValidator;
     this._composedAsyncValidatorFn = coerceToAsyncValidator(newAsyncValidator);
-    this.ng.setAsyncValidators(toNgAsyncValidator(this, newAsyncValidator));
+    setNgAsyncValidators(this, toNgAsyncValidator(this, newAsyncValidator));
   }
 
   clearValidators() {
     this.validator = null;
-    this.ng.clearValidators();
   }
   clearAsyncValidators() {
     this.asyncValidator = null;
-    this.ng.clearAsyncValidators();
+    setNgAsyncValidators(this, null);
+  }
+
+  /**
+   * Adds validators to those the control has, leaving out any that it already has. The validators
+   * are compared by reference, so keep a reference to a validator to remove it again.
+   */
+  addValidators(validators: TypedValidatorFn<TypedFormGroup<T, any>, E> | TypedValidatorFn<TypedFormGroup<T, any>, E>[]) {
+    this.setValidators(withValidators(this._rawValidators, validators));
+  }
+  /**
+   * Removes validators from those the control has, comparing them by reference.
+   */
+  removeValidators(validators: TypedValidatorFn<TypedFormGroup<T, any>, E> | TypedValidatorFn<TypedFormGroup<T, any>, E>[]) {
+    this.setValidators(withoutValidators(this._rawValidators, validators));
+  }
+  /**
+   * Whether the control has the validator, compared by reference.
+   */
+  hasValidator(validator: TypedValidatorFn<TypedFormGroup<T, any>, any>): boolean {
+    return validatorList(this._rawValidators).indexOf(validator) >= 0;
+  }
+
+  /**
+   * Retrieves a child control given the control's name or path, the returned control is typed
+   * according to the path.
+   *
+   * @param path A dot-delimited string or array of string/number values that define the path to the
+   * control.
+   */
+  get<P extends NodePath<{ group: T }, 8>>(path: P): NodeControlAtPath<{ group: T }, P>;
+  get<P extends string>(path: NodePathStringParam<{ group: T }, P>): NodeControlAtPath<{ group: T }, P>;
+  get(path: Array<string | number> | string): AbstractTypedControl | null {
+    return super.get(path);
   }
 
   setControl<K extends keyof T, U extends T[K] & AbstractTypedControl>(name: K, control: U): void {
+    (this._controls[name] as AbstractTypedControl | undefined)?._detachFromParent();
     delete (this._controls[name]);
     if (control) {
       this._controls[name] = control;
@@ -785,13 +2288,327 @@ export class TypedFormGroup<T extends { [K in keyof T]: AbstractTypedControl }>
 
   contains(controlName: string): boolean { return this.ng.contains(controlName); }
   setValue(value: ValueType<T>, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    matchItemsTo(this, value);
     this.ng.setValue(value as any, options);
   }
   patchValue(value: Partial<ValueType<T>>, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    matchItemsTo(this, value, { removeMissing: false });
     this.ng.patchValue(value, options);
   }
   reset(value: Partial<ValueType<T>> | {} = {}, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    matchItemsTo(this, value);
     this.ng.reset(value, options);
+    notifyStateChange(this, options, true);
   }
   getRawValue(): ValueType<T> { return this.ng.getRawValue(); }
+
+  /**
+   * The fields that differ from the initial value of the group, for example to send to a PATCH
+   * endpoint. Fields that are groups or dictionaries only have the keys that changed, while arrays
+   * and unions are included as a whole.
+   */
+  getChangedValue(): { [K in keyof T]?: ChangedValue<T[K]> } {
+    return changedValueOf(this, this._initialValue);
+  }
+}
+
+/**
+ * The value of one variant of a `TypedFormUnion`, including its discriminator.
+ */
+type VariantValue<K extends string, D, C> =
+  { [P in K | keyof C]: P extends K ? D : P extends keyof C ? ValueType<C[P]> : never };
+
+/**
+ * The value of a `TypedFormUnion`, as a discriminated union of the values of its variants.
+ */
+export type UnionValue<K extends string, V> = { [D in keyof V]: VariantValue<K, D, V[D]> }[keyof V];
+
+/**
+ * The controls of a `TypedFormUnion`, which are the discriminator and the controls of the active
+ * variant.
+ */
+export type UnionControls<K extends string, V> =
+  { [D in keyof V]: { [P in K]: TypedFormControl<keyof V & string> } & V[D] }[keyof V];
+
+/**
+ * @description
+ * Tracks the value and validity state of a discriminated union, such as the details of a payment
+ * method. A discriminator control holds the name of the active variant, and the union has the
+ * controls of that variant next to the discriminator. Whenever the discriminator changes, the
+ * controls of the previous variant are removed and the controls of the new one are added. The
+ * controls of the variants are kept while they are not active, so switching back restores their
+ * state.
+ *
+ * This uses the Angular `FormGroup` under the hood.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * const payment = new TypedFormUnion('type', {
+ *   card: { cardNumber: new TypedFormControl(''), expiry: new TypedFormControl('') },
+ *   bank: { iban: new TypedFormControl('') }
+ * }, 'card');
+ *
+ * payment.discriminator.setValue('bank');
+ *
+ * const value = payment.value;
+ * if (value.type === 'bank') {
+ *   value.iban; // type is string | null
+ * }
+ * ```
+ *
+ * @publicApi
+ */
+export class TypedFormUnion<
+  K extends string,
+  V extends { [D in keyof V]: { [key: string]: AbstractTypedControl } },
+  E extends ValidationErrors = ValidationErrors
+> extends AbstractTypedControl<E> {
+  private _ng: FormGroup;
+  private _discriminatorKey: K;
+  private _discriminator: TypedFormControl<keyof V & string>;
+  private _variants: V;
+  private _initialVariant: keyof V & string;
+  private _activeVariant: (keyof V & string) | null;
+
+  /**
+   * Contains the result of merging synchronous validators into a single validator function
+   * (combined using `Validators.compose`).
+   *
+   * @internal
+   */
+  private _composedValidatorFn: TypedValidatorFn<any, E>|null;
+
+  /**
+   * Contains the result of merging asynchronous validators into a single validator function
+   * (combined using `Validators.composeAsync`).
+   *
+   * @internal
+   */
+  private _composedAsyncValidatorFn: TypedAsyncValidatorFn<any, E>|null;
+
+  /**
+   * Synchronous validators as they were provided:
+   *  - in `AbstractControl` constructor
+   *  - as an argument while calling `setValidators` function
+   *  - while calling the setter on the `validator` field (e.g. `control.validator = validatorFn`)
+   *
+   * @internal
+   */
+  private _rawValidators: TypedValidatorFn<any, E>|TypedValidatorFn<any, E>[]|null;
+
+  /**
+   * Asynchronous validators as they were provided:
+   *  - in `AbstractControl` constructor
+   *  - as an argument while calling `setAsyncValidators` function
+   *  - while calling the setter on the `asyncValidator` field (e.g. `control.asyncValidator =
+   * asyncValidatorFn`)
+   *
+   * @internal
+   */
+  private _rawAsyncValidators: TypedAsyncValidatorFn<any, E>|TypedAsyncValidatorFn<any, E>[]|null;
+
+  /**
+   * Creates a new `TypedFormUnion` instance.
+   *
+   * @param discriminatorKey The name of the discriminator in the value of the union.
+   *
+   * @param variants The controls of each variant, by the value of the discriminator that selects
+   * the variant.
+   *
+   * @param variant The variant that is initially active, which is also the one that `reset`
+   * returns to.
+   *
+   * @param validatorOrOpts A synchronous validator function, or an array of
+   * such functions, or a `TypedAbstractControlOptions` object that contains validation functions
+   * and a validation trigger.
+   *
+   * @param asyncValidator A single async validator or array of async validator functions
+   */
+  constructor(
+    discriminatorKey: K,
+    variants: V,
+    variant: keyof V & string,
+    validatorOrOpts?: TypedValidatorFn<TypedFormUnion<K, NoInfer<V>, any>, E> |
+      TypedValidatorFn<TypedFormUnion<K, NoInfer<V>, any>, NoInfer<E>>[] |
+      TypedAbstractControlOptions<TypedFormUnion<K, NoInfer<V>, any>, E> |
+      null,
+    asyncValidator?: TypedAsyncValidatorFn<TypedFormUnion<K, NoInfer<V>, any>, E> |
+      TypedAsyncValidatorFn<TypedFormUnion<K, NoInfer<V>, any>, NoInfer<E>>[] |
+      null
+  ) {
+    super();
+    this._rawValidators = pickValidators(validatorOrOpts);
+    this._rawAsyncValidators = pickAsyncValidators(asyncValidator, validatorOrOpts);
+    this._composedValidatorFn = coerceToValidator(this._rawValidators);
+    this._composedAsyncValidatorFn = coerceToAsyncValidator(this._rawAsyncValidators);
+    this._discriminatorKey = discriminatorKey;
+    this._variants = variants;
+    this._initialVariant = this._activeVariant = variant;
+    this._discriminator = new TypedFormControl<keyof V & string>(variant);
+    const activeControls: Record<string, AbstractTypedControl> = variants[variant];
+    this._ng = new FormGroup(
+      fromEntries([
+        [discriminatorKey, this._discriminator.ng] as [string, AbstractControl],
+        ...Object.entries(activeControls).map(([key, ctrl]) => [key, ctrl.ng] as [string, AbstractControl])
+      ]),
+      { updateOn: toNgUpdateOn(validatorOrOpts) }
+    );
+    initNgValidators(
+      this,
+      false,
+      () => this._composedValidatorFn,
+      toNgAsyncValidator(this, this._rawAsyncValidators)
+    );
+    notifyNgStateChanges(this);
+    this._ng.updateValueAndValidity({ emitEvent: false });
+    this._discriminator.setParent(this);
+    Object.values(activeControls).forEach(ctrl => ctrl.setParent(this));
+    // The discriminator is set through the `setValue` of its Angular control by its `patchValue` and
+    // `reset`, by its parents and by value accessors, with or without events.
+    const setDiscriminator = this._discriminator.ng.setValue;
+    this._discriminator.ng.setValue = (value: keyof V & string, options?: Parameters<FormControl['setValue']>[1]) => {
+      this._activate(value);
+      setDiscriminator.call(this._discriminator.ng, value, options);
+    };
+    initEnabledWhen(this, validatorOrOpts);
+    this._initialValue = cloneValue(rawValueOf(this));
+  }
+
+  /**
+   * The control that holds the name of the active variant.
+   */
+  get discriminator(): TypedFormControl<keyof V & string> { return this._discriminator; }
+
+  /**
+   * The key of the discriminator in the value of the union.
+   */
+  get discriminatorKey(): K { return this._discriminatorKey; }
+
+  /**
+   * The controls of all of the variants, whether they are active or not.
+   */
+  get variants(): V { return this._variants; }
+
+  /**
+   * The name of the active variant, or `null` when the discriminator does not name a variant.
+   */
+  get activeVariant(): (keyof V & string) | null { return this._activeVariant; }
+
+  get controls(): UnionControls<K, V> {
+    return { [this._discriminatorKey]: this._discriminator, ...this._activeControls() } as UnionControls<K, V>;
+  }
+
+  get ng(): FormGroup { return this._ng as FormGroup; }
+
+  get value(): UnionValue<K, V> { return this.ng.value; }
+  get valueChanges(): Observable<UnionValue<K, V>> { return this.ng.valueChanges; }
+
+  get validator(): TypedValidatorFn<any, E>|null { return this._composedValidatorFn; }
+  set validator(validatorFn: TypedValidatorFn<TypedFormUnion<K, V, any>, E>|null) {
+    this._rawValidators = this._composedValidatorFn = validatorFn;
+  }
+  get asyncValidator(): TypedAsyncValidatorFn<any, E>|null { return this._composedAsyncValidatorFn; }
+  set asyncValidator(asyncValidatorFn: TypedAsyncValidatorFn<TypedFormUnion<K, V, any>, E>|null) {
+    this._rawAsyncValidators = this._composedAsyncValidatorFn = asyncValidatorFn;
+  }
+
+  setValidators(
+    newValidator: TypedValidatorFn<TypedFormUnion<K, V, any>, E> |
+      TypedValidatorFn<TypedFormUnion<K, V, any>, E>[] |
+      null
+  ) {
+    this._rawValidators = newValidator;
+    this._composedValidatorFn = coerceToValidator(newValidator);
+  }
+
+  setAsyncValidators(
+    newAsyncValidator: TypedAsyncValidatorFn<TypedFormUnion<K, V, any>, E> |
+      TypedAsyncValidatorFn<TypedFormUnion<K, V, any>, E>[] |
+      null
+  ) {
+    this._rawAsyncValidators = newAsyncValidator;
+    this._composedAsyncValidatorFn = coerceToAsyncValidator(newAsyncValidator);
+    setNgAsyncValidators(this, toNgAsyncValidator(this, newAsyncValidator));
+  }
+
+  clearValidators() {
+    this.validator = null;
+  }
+  clearAsyncValidators() {
+    this.asyncValidator = null;
+    setNgAsyncValidators(this, null);
+  }
+
+  /**
+   * Adds validators to those the control has, leaving out any that it already has. The validators
+   * are compared by reference, so keep a reference to a validator to remove it again.
+   */
+  addValidators(validators: TypedValidatorFn<TypedFormUnion<K, V, any>, E> | TypedValidatorFn<TypedFormUnion<K, V, any>, E>[]) {
+    this.setValidators(withValidators(this._rawValidators, validators));
+  }
+  /**
+   * Removes validators from those the control has, comparing them by reference.
+   */
+  removeValidators(validators: TypedValidatorFn<TypedFormUnion<K, V, any>, E> | TypedValidatorFn<TypedFormUnion<K, V, any>, E>[]) {
+    this.setValidators(withoutValidators(this._rawValidators, validators));
+  }
+  /**
+   * Whether the control has the validator, compared by reference.
+   */
+  hasValidator(validator: TypedValidatorFn<TypedFormUnion<K, V, any>, any>): boolean {
+    return validatorList(this._rawValidators).indexOf(validator) >= 0;
+  }
+
+  contains(controlName: string): boolean { return this.ng.contains(controlName); }
+  setValue(value: UnionValue<K, V>, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    this._activate(this._variantOf(value) ?? null);
+    matchItemsTo(this, value);
+    this.ng.setValue(value, options);
+  }
+  patchValue(value: Partial<UnionValue<K, V>>, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    const variant = this._variantOf(value);
+    if (variant !== undefined) this._activate(variant);
+    matchItemsTo(this, value, { removeMissing: false });
+    this.ng.patchValue(value, options);
+  }
+  reset(value: Partial<UnionValue<K, V>> | {} = {}, options: { onlySelf?: boolean, emitEvent?: boolean } = {}): void {
+    const variant = this._variantOf(value) ?? this._initialVariant;
+    this._activate(variant);
+    matchItemsTo(this, value);
+    this.ng.reset({ ...value, [this._discriminatorKey]: variant }, options);
+    notifyStateChange(this, options, true);
+  }
+  getRawValue(): UnionValue<K, V> { return this.ng.getRawValue(); }
+
+  private _variantOf(value: {}): (keyof V & string) | null | undefined {
+    return (value as Record<string, any>)[this._discriminatorKey];
+  }
+
+  private _activeControls(): Record<string, AbstractTypedControl> {
+    return this._activeVariant != null ? this._variants[this._activeVariant] : {};
+  }
+
+  /**
+   * Swaps the controls of the active variant for the controls of the given variant.
+   *
+   * @internal
+   */
+  _activate(variant: (keyof V & string) | null): void {
+    if (variant != null && !this._variants.hasOwnProperty(variant)) variant = null;
+    if (variant === this._activeVariant) return;
+
+    const previous = this._activeControls();
+    Object.keys(previous).forEach(name => {
+      this.ng.removeControl(name, { emitEvent: false });
+      previous[name]._detachFromParent();
+    });
+
+    this._activeVariant = variant;
+    const next = this._activeControls();
+    Object.keys(next).forEach(name => {
+      this.ng.addControl(name, next[name].ng, { emitEvent: false });
+      next[name].setParent(this);
+    });
+  }
 }
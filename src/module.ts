@@ -0,0 +1,66 @@
+import { NgModule } from '@angular/core';
+import { ReactiveFormsModule } from '@angular/forms';
+
+import { ErrorMessagePipe, ErrorMessagesPipe } from './directives/error-message-pipes';
+import {
+  TypedFormArrayNameDirective, TypedFormControlDirective, TypedFormControlNameDirective,
+  TypedFormDictionaryNameDirective, TypedFormGroupDirective, TypedFormGroupNameDirective
+} from './directives/reactive-directives';
+import {
+  TypedCheckboxRequiredValidator, TypedMaxValidator, TypedMinLengthValidator, TypedMinValidator, TypedPatternValidator,
+  TypedRequiredValidator
+} from './directives/validator-directives';
+import {
+  TypedCheckboxControlValueAccessor, TypedControlStatus, TypedControlStatusGroup, TypedDefaultValueAccessor,
+  TypedNumberValueAccessor, TypedRadioControlValueAccessor, TypedRangeValueAccessor, TypedSelectControlValueAccessor,
+  TypedSelectMultipleControlValueAccessor
+} from './directives/value-accessors';
+import { ErrorMessageRegistry, setErrorMessageRegistry } from './error-messages';
+
+const TYPED_DIRECTIVES = [
+  TypedFormGroupDirective,
+  TypedFormControlDirective,
+  TypedFormControlNameDirective,
+  TypedFormGroupNameDirective,
+  TypedFormArrayNameDirective,
+  TypedFormDictionaryNameDirective,
+  TypedDefaultValueAccessor,
+  TypedCheckboxControlValueAccessor,
+  TypedNumberValueAccessor,
+  TypedRangeValueAccessor,
+  TypedRadioControlValueAccessor,
+  TypedSelectControlValueAccessor,
+  TypedSelectMultipleControlValueAccessor,
+  TypedControlStatus,
+  TypedControlStatusGroup,
+  TypedRequiredValidator,
+  TypedCheckboxRequiredValidator,
+  TypedMinValidator,
+  TypedMaxValidator,
+  TypedMinLengthValidator,
+  TypedPatternValidator,
+  ErrorMessagePipe,
+  ErrorMessagesPipe
+];
+
+/**
+ * @description
+ * Exports the directives that bind typed controls to templates, the directives that add the
+ * validators of template attributes such as `required` to them, and the pipes that render their
+ * error messages, along with the Angular `ReactiveFormsModule`. The `ErrorMessageRegistry` of the
+ * application is used for the `errorMessages` of every control.
+ *
+ * When the Angular `FormsModule` is also imported, its `NgForm` directive matches every `form`
+ * element without a `formGroup` attribute, so add `ngNoForm` to forms bound with `typedFormGroup`.
+ *
+ * @publicApi
+ */
+@NgModule({
+  declarations: TYPED_DIRECTIVES,
+  exports: [ReactiveFormsModule, TYPED_DIRECTIVES]
+})
+export class TypedFormsModule {
+  constructor(registry: ErrorMessageRegistry) {
+    setErrorMessageRegistry(registry);
+  }
+}
@@ -0,0 +1,283 @@
+import {
+  AbstractTypedControl, cloneValue, isEqual, matchItemsTo, rawValueOf, TypedFormArray, TypedFormControl, TypedFormDictionary,
+  TypedFormGroup, TypedFormUnion
+} from './models';
+
+/**
+ * @description
+ * An operation of a JSON Patch document, as defined by RFC 6902.
+ *
+ * @publicApi
+ */
+export type JsonPatchOperation =
+  | { op: 'add', path: string, value: any }
+  | { op: 'remove', path: string }
+  | { op: 'replace', path: string, value: any }
+  | { op: 'move', from: string, path: string }
+  | { op: 'copy', from: string, path: string }
+  | { op: 'test', path: string, value: any };
+
+/**
+ * @description
+ * Configuration options for `applyPatch`.
+ *
+ * @publicApi
+ */
+export interface ApplyPatchOptions {
+  /**
+   * Creates the array items and dictionary entries that the patch adds. Arrays with an
+   * `itemFactory` and dictionaries with an `entryFactory` use them by default.
+   */
+  createControl?: (parent: AbstractTypedControl, key: string | number, value: unknown) => AbstractTypedControl;
+  /**
+   * When true or not supplied (the default), the `statusChanges` and `valueChanges` observables
+   * emit events once the patch has been applied.
+   */
+  emitEvent?: boolean;
+}
+
+function escapeKey(key: string | number): string {
+  return String(key).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (pointer[0] !== '/') throw new Error(`'${pointer}' is not a JSON pointer.`);
+
+  return pointer.slice(1).split('/').map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function isIndex(key: string): boolean {
+  return /^(0|[1-9][0-9]*)$/.test(key);
+}
+
+function isContainer(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null;
+}
+
+function diff(control: AbstractTypedControl, baseline: any, current: any, path: string, ops: JsonPatchOperation[]): void {
+  if (isEqual(baseline, current)) return;
+
+  if (control instanceof TypedFormArray && Array.isArray(baseline) && Array.isArray(current)) {
+    const common = Math.min(baseline.length, current.length);
+    for (let i = 0; i < common; i++) diff(control.at(i), baseline[i], current[i], `${path}/${i}`, ops);
+    for (let i = baseline.length - 1; i >= common; i--) ops.push({ op: 'remove', path: `${path}/${i}` });
+    for (let i = common; i < current.length; i++) ops.push({ op: 'add', path: `${path}/${i}`, value: current[i] });
+    return;
+  }
+
+  if (!(control instanceof TypedFormControl) && isContainer(baseline) && isContainer(current) &&
+    !Array.isArray(baseline) && !Array.isArray(current)) {
+    const controls: Record<string, AbstractTypedControl> = (control as TypedFormGroup<any, any>).controls;
+    Object.keys(baseline)
+      .filter(key => !current.hasOwnProperty(key))
+      .forEach(key => ops.push({ op: 'remove', path: `${path}/${escapeKey(key)}` }));
+    Object.keys(current).forEach(key => {
+      const keyPath = `${path}/${escapeKey(key)}`;
+      if (!baseline.hasOwnProperty(key)) {
+        ops.push({ op: 'add', path: keyPath, value: current[key] });
+      } else if (controls.hasOwnProperty(key)) {
+        diff(controls[key], baseline[key], current[key], keyPath, ops);
+      } else if (!isEqual(baseline[key], current[key])) {
+        ops.push({ op: 'replace', path: keyPath, value: current[key] });
+      }
+    });
+    return;
+  }
+
+  ops.push({ op: 'replace', path, value: current });
+}
+
+/**
+ * Finds the control of a child of a control, which has the shape of the values that can be set
+ * under the key. New array items and dictionary entries have the shape of the existing ones, and
+ * `null` is returned when there are none to go by. Returns `undefined` when the shape of the
+ * control has no such child.
+ */
+function childShape(control: AbstractTypedControl | null, key: string): AbstractTypedControl | null | undefined {
+  if (control === null) return null;
+  if (control instanceof TypedFormControl) return undefined;
+
+  if (control instanceof TypedFormArray) {
+    if (key !== '-' && !isIndex(key)) return undefined;
+    return control.at(Number(key)) ?? control.at(0) ?? null;
+  }
+  if (control instanceof TypedFormDictionary) {
+    const entries: AbstractTypedControl[] = Object.values(control.controls);
+    return control.controls[key] ?? entries[0] ?? null;
+  }
+  if (control instanceof TypedFormUnion) {
+    if (key === control.discriminatorKey) return control.discriminator;
+    const variants: Array<Record<string, AbstractTypedControl>> = Object.values(control.variants);
+    return variants.find(variant => variant.hasOwnProperty(key))?.[key];
+  }
+
+  const controls: Record<string, AbstractTypedControl> = (control as TypedFormGroup<any, any>).controls;
+  return controls.hasOwnProperty(key) ? controls[key] : undefined;
+}
+
+/**
+ * Checks that a path exists in the shape of a control, and that the operation can change it:
+ * the fields of groups and the discriminator of unions cannot be added or removed.
+ */
+function checkShape(control: AbstractTypedControl, keys: string[], op: string, pointer: string): void {
+  let shape: AbstractTypedControl | null | undefined = control;
+  let parent: AbstractTypedControl | null = null;
+
+  for (const key of keys) {
+    parent = shape as AbstractTypedControl | null;
+    shape = childShape(parent, key);
+    if (shape === undefined) throw new Error(`The path '${pointer}' does not exist in the shape of the form.`);
+  }
+
+  const fixed = parent instanceof TypedFormGroup ||
+    (parent instanceof TypedFormUnion && keys[keys.length - 1] === parent.discriminatorKey);
+  if (fixed && (op === 'remove' || op === 'move')) {
+    throw new Error(`The path '${pointer}' cannot be removed from the form.`);
+  }
+}
+
+function getValueAt(value: any, keys: string[], pointer: string): any {
+  return keys.reduce((parent, key) => {
+    if (!isContainer(parent) || !parent.hasOwnProperty(key) || (Array.isArray(parent) && !isIndex(key))) {
+      throw new Error(`The path '${pointer}' does not exist in the value of the form.`);
+    }
+    return parent[key];
+  }, value);
+}
+
+function addValueAt(root: { value: any }, keys: string[], value: any, pointer: string): void {
+  if (!keys.length) {
+    root.value = value;
+    return;
+  }
+
+  const parent = getValueAt(root.value, keys.slice(0, -1), pointer);
+  const key = keys[keys.length - 1];
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : Number(key);
+    if (!isIndex(String(index)) || index > parent.length) {
+      throw new Error(`The path '${pointer}' does not exist in the value of the form.`);
+    }
+    parent.splice(index, 0, value);
+  } else if (isContainer(parent)) {
+    parent[key] = value;
+  } else {
+    throw new Error(`The path '${pointer}' does not exist in the value of the form.`);
+  }
+}
+
+function removeValueAt(root: { value: any }, keys: string[], pointer: string): any {
+  const value = getValueAt(root.value, keys, pointer);
+  if (!keys.length) throw new Error('The form itself cannot be removed.');
+
+  const parent = getValueAt(root.value, keys.slice(0, -1), pointer);
+  const key = keys[keys.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+  return value;
+}
+
+function applyOperation(control: AbstractTypedControl, root: { value: any }, operation: JsonPatchOperation): void {
+  const keys = parsePointer(operation.path);
+  checkShape(control, keys, operation.op, operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      addValueAt(root, keys, cloneValue(operation.value), operation.path);
+      break;
+    case 'remove':
+      removeValueAt(root, keys, operation.path);
+      break;
+    case 'replace':
+      getValueAt(root.value, keys, operation.path);
+      if (keys.length) removeValueAt(root, keys, operation.path);
+      addValueAt(root, keys, cloneValue(operation.value), operation.path);
+      break;
+    case 'move': {
+      const from = parsePointer(operation.from);
+      checkShape(control, from, 'remove', operation.from);
+      if (operation.path.startsWith(operation.from + '/')) {
+        throw new Error(`The path '${operation.from}' cannot be moved into itself.`);
+      }
+      addValueAt(root, keys, removeValueAt(root, from, operation.from), operation.path);
+      break;
+    }
+    case 'copy': {
+      const from = parsePointer(operation.from);
+      checkShape(control, from, 'copy', operation.from);
+      addValueAt(root, keys, cloneValue(getValueAt(root.value, from, operation.from)), operation.path);
+      break;
+    }
+    case 'test':
+      if (!isEqual(getValueAt(root.value, keys, operation.path), operation.value)) {
+        throw new Error(`The test of the path '${operation.path}' failed.`);
+      }
+      break;
+    default:
+      throw new Error(`'${(operation as { op: string }).op}' is not a JSON Patch operation.`);
+  }
+}
+
+/**
+ * @description
+ * Creates a JSON Patch document (RFC 6902) of the changes between a baseline and the current raw
+ * value of a form. The paths follow the keys of groups and dictionaries and the indices of
+ * arrays, items added to or removed from the end of an array become `add` and `remove` operations,
+ * and the values of `TypedFormControl`s are replaced as a whole.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * form.controls.name.setValue('simon');
+ *
+ * createPatch(form) // [{ op: 'replace', path: '/name', value: 'simon' }]
+ * ```
+ *
+ * @param control The form to create the patch for.
+ *
+ * @param baseline The value to compare the form with, its initial value by default.
+ *
+ * @publicApi
+ */
+export function createPatch<C extends AbstractTypedControl>(control: C, baseline: C['value'] = control.initialValue): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = [];
+  diff(control, baseline, rawValueOf(control), '', ops);
+  return ops;
+}
+
+/**
+ * @description
+ * Applies a JSON Patch document (RFC 6902) to a form, adding and removing array items and
+ * dictionary entries as needed. Every path must exist in the shape of the form, which excludes
+ * the inside of a `TypedFormControl` and removing the fields of a group. The patch is applied
+ * as a whole: when any operation fails, including a `test`, or a control that it adds cannot be
+ * created, an error is thrown and the form is left as it was.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * applyPatch(form, [
+ *   { op: 'replace', path: '/name', value: 'simon' },
+ *   { op: 'add', path: '/tags/-', value: 'angular' }
+ * ]);
+ * ```
+ *
+ * @param control The form to apply the patch to.
+ *
+ * @param operations The operations of the patch.
+ *
+ * @param opts Configuration options that determine how the patch is applied.
+ *
+ * @publicApi
+ */
+export function applyPatch(control: AbstractTypedControl, operations: JsonPatchOperation[], opts: ApplyPatchOptions = {}): void {
+  const root = { value: cloneValue(rawValueOf(control)) };
+  operations.forEach(operation => applyOperation(control, root, operation));
+
+  matchItemsTo(control, root.value, { matchAll: true, createControl: opts.createControl });
+  control.setValue(root.value, { emitEvent: opts.emitEvent });
+}
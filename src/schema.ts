@@ -0,0 +1,186 @@
+import { AbstractTypedControl, TypedFormArray, TypedFormControl, TypedFormDictionary, TypedFormGroup } from './models';
+import { TypedValidatorFn } from './directives/validators';
+import { TypedValidators } from './validators';
+
+/**
+ * @description
+ * The names of the types of JSON Schema.
+ *
+ * @publicApi
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * @description
+ * The subset of JSON Schema (draft 2020-12) that `controlFromSchema` understands. Other keywords
+ * are ignored, except for `$ref`, which is not supported.
+ *
+ * @publicApi
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  properties?: { readonly [key: string]: JsonSchema };
+  required?: readonly string[];
+  additionalProperties?: JsonSchema | boolean;
+  propertyNames?: { pattern?: string };
+  minProperties?: number;
+  maxProperties?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  enum?: readonly unknown[];
+  const?: unknown;
+  default?: unknown;
+  $ref?: string;
+}
+
+type SchemaTypeValue<T> =
+  T extends 'string' ? string
+  : T extends 'number' | 'integer' ? number
+  : T extends 'boolean' ? boolean
+  : T extends 'null' ? null
+  : T extends 'array' ? unknown[]
+  : T extends 'object' ? Record<string, unknown>
+  : never;
+
+/**
+ * @description
+ * The value of the `TypedFormControl` that `controlFromSchema` creates for a schema.
+ *
+ * @publicApi
+ */
+export type SchemaValue<S> =
+  S extends { const: infer C } ? C
+  : S extends { enum: readonly (infer E)[] } ? E
+  : S extends { type: readonly (infer T)[] } ? SchemaTypeValue<T>
+  : S extends { type: infer T } ? SchemaTypeValue<T>
+  : unknown;
+
+/**
+ * @description
+ * The control that `controlFromSchema` creates for a schema, which can be inferred when the
+ * schema is declared `as const`. Objects with `properties` become a `TypedFormGroup`, objects with
+ * only `additionalProperties` a `TypedFormDictionary`, arrays with `items` a `TypedFormArray`, and
+ * anything else a `TypedFormControl`.
+ *
+ * @publicApi
+ */
+export type SchemaControl<S> =
+  JsonSchema extends S ? AbstractTypedControl
+  : S extends { type: 'object', properties: infer P } ? TypedFormGroup<{ -readonly [K in keyof P]: SchemaControl<P[K]> }>
+  : S extends { type: 'object', additionalProperties: infer A }
+    ? A extends JsonSchema ? TypedFormDictionary<SchemaControl<A>> : TypedFormControl<SchemaValue<S>>
+  : S extends { type: 'array', items: infer I } ? TypedFormArray<SchemaControl<I>>
+  : TypedFormControl<SchemaValue<S>>;
+
+function isType(schema: JsonSchema, type: JsonSchemaType): boolean {
+  return Array.isArray(schema.type) ? schema.type.indexOf(type) >= 0 : schema.type === type;
+}
+
+function validatorsOf(schema: JsonSchema, required: boolean): TypedValidatorFn<any, any>[] {
+  const validators: Array<TypedValidatorFn<any, any> | false | undefined> = [
+    required && TypedValidators.required,
+    schema.minimum !== undefined && TypedValidators.min(schema.minimum),
+    schema.maximum !== undefined && TypedValidators.max(schema.maximum),
+    schema.minLength !== undefined && TypedValidators.minLength(schema.minLength),
+    schema.maxLength !== undefined && TypedValidators.maxLength(schema.maxLength),
+    schema.pattern !== undefined && TypedValidators.pattern(new RegExp(schema.pattern)),
+    schema.format === 'email' && TypedValidators.email,
+    schema.enum && TypedValidators.allowedValues(schema.enum),
+    schema.hasOwnProperty('const') && TypedValidators.allowedValues([schema.const])
+  ];
+
+  return validators.filter((validator): validator is TypedValidatorFn<any, any> => !!validator);
+}
+
+function createFromSchema(schema: JsonSchema, value: any, required: boolean): AbstractTypedControl {
+  if (schema.$ref !== undefined) {
+    throw new Error(`Cannot create a control for '${schema.$ref}', $ref is not supported.`);
+  }
+
+  value = value !== undefined ? value : schema.default;
+
+  if (isType(schema, 'object') && schema.properties) {
+    const properties = schema.properties;
+    const requiredKeys = schema.required ?? [];
+    const controls: Record<string, AbstractTypedControl> = {};
+    Object.keys(properties).forEach(key => {
+      controls[key] = createFromSchema(properties[key], value?.[key], requiredKeys.indexOf(key) >= 0);
+    });
+
+    return new TypedFormGroup(controls);
+  }
+
+  if (isType(schema, 'object') && typeof schema.additionalProperties === 'object') {
+    const entrySchema = schema.additionalProperties;
+    const entries: Record<string, AbstractTypedControl> = {};
+    Object.keys(value ?? {}).forEach(key => entries[key] = createFromSchema(entrySchema, value[key], false));
+
+    return new TypedFormDictionary<AbstractTypedControl>(entries, {
+      validators: [
+        schema.propertyNames?.pattern !== undefined && TypedValidators.keyPattern(new RegExp(schema.propertyNames.pattern)),
+        schema.minProperties !== undefined && TypedValidators.minKeys(schema.minProperties),
+        schema.maxProperties !== undefined && TypedValidators.maxKeys(schema.maxProperties),
+        schema.required !== undefined && TypedValidators.requiredKeys(schema.required)
+      ].filter((validator): validator is TypedValidatorFn<any, any> => !!validator),
+      entryFactory: (key, entryValue) => createFromSchema(entrySchema, entryValue, false)
+    });
+  }
+
+  if (isType(schema, 'array') && schema.items) {
+    const itemSchema = schema.items;
+    const items = (Array.isArray(value) ? value : []).map(item => createFromSchema(itemSchema, item, false));
+
+    return new TypedFormArray<AbstractTypedControl>(items, {
+      validators: [
+        schema.minItems !== undefined && TypedValidators.minItems(schema.minItems),
+        schema.maxItems !== undefined && TypedValidators.maxItems(schema.maxItems),
+        schema.uniqueItems && TypedValidators.uniqueItems
+      ].filter((validator): validator is TypedValidatorFn<any, any> => !!validator),
+      itemFactory: itemValue => createFromSchema(itemSchema, itemValue, false)
+    });
+  }
+
+  return new TypedFormControl(value ?? null, validatorsOf(schema, required));
+}
+
+/**
+ * @description
+ * Creates a tree of typed controls for a JSON Schema, with the constraints of the schema as
+ * validators. Objects with `properties` become a `TypedFormGroup`, whose `required` properties
+ * are required, objects with only `additionalProperties` a `TypedFormDictionary`, which must have
+ * entries for its `required` keys, and arrays with `items` a `TypedFormArray`. The dictionaries and arrays create their entries and items from
+ * the schema, so a value of any size can be set. The initial values are taken from `default`.
+ *
+ * Declaring the schema `as const` lets the type of the controls be inferred from it.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * const form = controlFromSchema({
+ *   type: 'object',
+ *   properties: {
+ *     name: { type: 'string', maxLength: 50 },
+ *     size: { enum: ['small', 'large'] },
+ *     tags: { type: 'array', items: { type: 'string' }, uniqueItems: true }
+ *   },
+ *   required: ['name']
+ * } as const);
+ *
+ * form.controls.size.value // type is 'small' | 'large'
+ * ```
+ *
+ * @param schema The schema to create the controls for.
+ *
+ * @publicApi
+ */
+export function controlFromSchema<S extends JsonSchema>(schema: S): SchemaControl<S> {
+  return createFromSchema(schema, undefined, false) as SchemaControl<S>;
+}
@@ -0,0 +1,181 @@
+import { ValidationErrors, ValidatorFn } from '@angular/forms';
+
+import { AbstractTypedControl, childrenOf, isEqual } from './models';
+
+/**
+ * @description
+ * A validation error returned by a server for one of the controls of a form.
+ *
+ * @publicApi
+ */
+export interface ServerError {
+  /**
+   * The path of the control in the form, in the format given by `pathFormat`. An empty path is the
+   * form itself.
+   */
+  path: string;
+  code: string;
+  message?: string;
+}
+
+/**
+ * @description
+ * The formats of the paths of server errors: `'dotted'` as accepted by `get`, such as
+ * `children.2.name`, `'slash'`, such as `children/2/name`, and `'pointer'` for JSON pointers, such
+ * as `/children/2/name`.
+ *
+ * @publicApi
+ */
+export type ServerErrorPathFormat = 'dotted' | 'slash' | 'pointer';
+
+/**
+ * @description
+ * Configuration options for `applyServerErrors`.
+ *
+ * @publicApi
+ */
+export interface ServerErrorOptions {
+  /**
+   * The format of the paths of the errors, `'dotted'` by default.
+   */
+  pathFormat?: ServerErrorPathFormat;
+  /**
+   * The key that the errors are set under in the errors of each control, `'server'` by default.
+   */
+  errorKey?: string;
+  /**
+   * When true or not supplied (the default), the `statusChanges` observables emit events as the
+   * errors are set.
+   */
+  emitEvent?: boolean;
+}
+
+interface ServerErrorState {
+  key: string;
+  validator: ValidatorFn;
+}
+
+const serverErrorStates = new WeakMap<AbstractTypedControl, ServerErrorState>();
+
+function splitPath(path: string, format: ServerErrorPathFormat): string[] {
+  switch (format) {
+    case 'dotted':
+      return path === '' ? [] : path.split('.');
+    case 'slash':
+      return path.split('/').filter(key => key !== '');
+    case 'pointer':
+      if (path !== '' && path[0] !== '/') throw new Error(`'${path}' is not a JSON pointer.`);
+      return path === '' ? [] : path.slice(1).split('/').map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+}
+
+function withoutKey(errors: ValidationErrors | null, key: string): ValidationErrors | null {
+  if (!errors || !errors.hasOwnProperty(key)) return errors;
+
+  const rest = { ...errors };
+  delete rest[key];
+  return Object.keys(rest).length ? rest : null;
+}
+
+/**
+ * Creates the validator that keeps the server errors of a control when its validators run again,
+ * until its value changes. It is added to the Angular control alongside the validators of the
+ * typed control, so the errors are part of the status that Angular emits, and removes itself once
+ * the value has changed.
+ */
+function serverErrorValidator(control: AbstractTypedControl, key: string, value: unknown, errors: Record<string, string | true>): ValidatorFn {
+  return () => {
+    if (isEqual(control.value, value)) return { [key]: errors };
+
+    removeServerErrors(control);
+    return null;
+  };
+}
+
+function removeServerErrors(control: AbstractTypedControl): ServerErrorState | undefined {
+  const state = serverErrorStates.get(control);
+  if (!state) return undefined;
+
+  serverErrorStates.delete(control);
+  control.ng.removeValidators(state.validator);
+  return state;
+}
+
+/**
+ * @description
+ * Sets validation errors returned by a server on the controls of a form, replacing any server
+ * errors set before. The errors of each control are merged with the errors of its validators
+ * under one key, as `{ server: { taken: 'The name is taken' } }`, or `true` for errors without a
+ * message. They are kept until the value of the control changes, even when its validators run
+ * again, and are then cleared.
+ *
+ * @usageNotes
+ *
+ * ```typescript
+ * const unmatched = applyServerErrors(form, [
+ *   { path: 'children/2/name', code: 'taken', message: 'The name is taken' }
+ * ], { pathFormat: 'slash' });
+ *
+ * form.get('children.2.name')?.errors // { server: { taken: 'The name is taken' } }
+ * ```
+ *
+ * @param control The form to set the errors on.
+ *
+ * @param errors The errors returned by the server.
+ *
+ * @param opts Configuration options that determine how the errors are set.
+ *
+ * @returns The errors whose paths do not match a control of the form.
+ *
+ * @publicApi
+ */
+export function applyServerErrors(
+  control: AbstractTypedControl,
+  errors: ServerError[],
+  opts: ServerErrorOptions = {}
+): ServerError[] {
+  const key = opts.errorKey ?? 'server';
+  const unmatched: ServerError[] = [];
+  const matched = new Map<AbstractTypedControl, Record<string, string | true>>();
+
+  errors.forEach(error => {
+    const path = splitPath(error.path, opts.pathFormat ?? 'dotted');
+    const target = path.length ? control.get(path) : control;
+    if (!target) {
+      unmatched.push(error);
+      return;
+    }
+
+    matched.set(target, { ...matched.get(target), [error.code]: error.message ?? true });
+  });
+
+  clearServerErrors(control, { emitEvent: opts.emitEvent });
+
+  matched.forEach((controlErrors, target) => {
+    const validator = serverErrorValidator(target, key, target.value, controlErrors);
+    serverErrorStates.set(target, { key, validator });
+    target.ng.addValidators(validator);
+    target.setErrors({ ...target.errors, [key]: controlErrors }, { emitEvent: opts.emitEvent });
+  });
+
+  return unmatched;
+}
+
+/**
+ * @description
+ * Clears the server errors set by `applyServerErrors` from a control and its descendants.
+ *
+ * @param control The control to clear the errors of.
+ *
+ * @param opts Configuration options that determine how the errors are cleared:
+ * * `emitEvent`: When true or not supplied (the default), the `statusChanges` observables emit
+ * events as the errors are cleared.
+ *
+ * @publicApi
+ */
+export function clearServerErrors(control: AbstractTypedControl, opts: { emitEvent?: boolean } = {}): void {
+  const state = removeServerErrors(control);
+  if (state) control.setErrors(withoutKey(control.errors, state.key), { emitEvent: opts.emitEvent });
+
+  childrenOf(control).forEach(child => clearServerErrors(child, opts));
+}
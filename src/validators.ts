@@ -1,11 +1,96 @@
 import { Validators, ValidationErrors } from '@angular/forms';
-import { from, Observable } from 'rxjs';
+import { from, merge, Observable, of, throwError, timer, TimeoutError } from 'rxjs';
 import { Subscribable } from 'rxjs';
 import { forkJoin } from 'rxjs';
-import { map } from 'rxjs/operators'
+import { Subscription } from 'rxjs';
+import { catchError, map, switchMap, take, tap, timeout } from 'rxjs/operators'
 
-import { TypedAsyncValidator, TypedAsyncValidatorFn, TypedValidator, TypedValidatorFn } from './directives/validators';
-import { AbstractTypedControl } from './models';
+import {
+  TypedAsyncValidator, TypedAsyncValidatorFn, TypedGroupValidatorFn, TypedValidator, TypedValidatorFn, ValidatorErrors
+} from './directives/validators';
+import {
+  AbstractTypedControl, attachChildErrors, isEqual, NoInfer, TypedFormArray, TypedFormDictionary, ValuePathString, ValueType
+} from './models';
+
+/**
+ * @description
+ * Options for the validators of a `TypedFormGroup` that compare its fields.
+ *
+ * @publicApi
+ */
+export interface CrossFieldValidatorOptions<K extends string> {
+  /**
+   * @description
+   * The fields that the error is also set on, as well as on the group. The error is removed from
+   * them once the check passes, the validator is removed from the group or a field is removed.
+   */
+  attachTo?: K | K[];
+}
+
+/**
+ * The comparisons supported by `TypedValidators.compareFields`.
+ */
+export type FieldComparison = '<' | '<=' | '>' | '>=';
+
+/**
+ * @description
+ * Options for `TypedValidators.when`, where `P` is the type of the value that the condition is
+ * checked against.
+ *
+ * @publicApi
+ */
+export interface ConditionalValidatorOptions<P> {
+  /**
+   * @description
+   * The paths of the controls that the condition reads, relative to the scope. The control is
+   * validated again whenever the value of one of them changes.
+   */
+  dependsOn: Array<unknown extends P ? string : ValuePathString<P>>;
+
+  /**
+   * @description
+   * Whether the condition is checked against the value of the parent of the control, i.e. the
+   * values of its siblings, or the value of the root of the form. Defaults to `'parent'`.
+   */
+  scope?: 'parent' | 'root';
+}
+
+/**
+ * @description
+ * Options for `TypedValidators.cacheAsync`.
+ *
+ * @publicApi
+ */
+export interface CacheAsyncOptions<T extends AbstractTypedControl> {
+  /**
+   * @description
+   * The key that the result of the validator is cached under, the value of the control as JSON by
+   * default.
+   */
+  key?: (control: T) => string;
+
+  /**
+   * @description
+   * How long a result is kept for in milliseconds, forever by default.
+   */
+  ttl?: number;
+}
+
+/**
+ * @description
+ * Options for `TypedValidators.composeAsync`.
+ *
+ * @publicApi
+ */
+export interface ComposeAsyncOptions {
+  /**
+   * @description
+   * With `'all'` (the default) the errors are emitted once every validator has finished. With
+   * `'partial'` the errors found so far are emitted each time a validator finishes, so the control
+   * stops being pending as soon as the first validator finishes.
+   */
+  strategy?: 'all' | 'partial';
+}
 
 export class TypedValidators {
   /**
@@ -29,8 +114,8 @@ export class TypedValidators {
    * @see `updateValueAndValidity()`
    *
    */
-  static min<T extends AbstractTypedControl>(min: number): TypedValidatorFn<T> {
-    return (control: T) => Validators.min(min)(control.ng);
+  static min<T extends AbstractTypedControl>(min: number): TypedValidatorFn<T, { min: { min: number, actual: number } }> {
+    return (control: T) => Validators.min(min)(control.ng) as { min: { min: number, actual: number } } | null;
   }
 
   /**
@@ -54,8 +139,8 @@ export class TypedValidators {
    * @see `updateValueAndValidity()`
    *
    */
-  static max<T extends AbstractTypedControl>(max: number): TypedValidatorFn<T> {
-    return (control: T) => Validators.max(max)(control.ng);
+  static max<T extends AbstractTypedControl>(max: number): TypedValidatorFn<T, { max: { max: number, actual: number } }> {
+    return (control: T) => Validators.max(max)(control.ng) as { max: { max: number, actual: number } } | null;
   }
 
   /**
@@ -78,8 +163,8 @@ export class TypedValidators {
    * @see `updateValueAndValidity()`
    *
    */
-  static required<T extends AbstractTypedControl>(control: T): ValidationErrors|null {
-    return Validators.required(control.ng);
+  static required<T extends AbstractTypedControl>(control: T): { required: true }|null {
+    return Validators.required(control.ng) as { required: true } | null;
   }
 
   /**
@@ -103,8 +188,8 @@ export class TypedValidators {
    * @see `updateValueAndValidity()`
    *
    */
-  static requiredTrue<T extends AbstractTypedControl>(control: T): ValidationErrors|null {
-    return Validators.requiredTrue(control.ng);
+  static requiredTrue<T extends AbstractTypedControl>(control: T): { required: true }|null {
+    return Validators.requiredTrue(control.ng) as { required: true } | null;
   }
 
   /**
@@ -143,8 +228,8 @@ export class TypedValidators {
    * @see `updateValueAndValidity()`
    *
    */
-  static email<T extends AbstractTypedControl>(control: T): ValidationErrors|null {
-    return Validators.email(control.ng);
+  static email<T extends AbstractTypedControl>(control: T): { email: true }|null {
+    return Validators.email(control.ng) as { email: true } | null;
   }
 
   /**
@@ -177,8 +262,11 @@ export class TypedValidators {
    * @see `updateValueAndValidity()`
    *
    */
-  static minLength<T extends AbstractTypedControl>(minLength: number): TypedValidatorFn<T> {
-    return (control: T) => Validators.minLength(minLength)(control.ng);
+  static minLength<T extends AbstractTypedControl>(
+    minLength: number
+  ): TypedValidatorFn<T, { minlength: { requiredLength: number, actualLength: number } }> {
+    return (control: T) =>
+      Validators.minLength(minLength)(control.ng) as { minlength: { requiredLength: number, actualLength: number } } | null;
   }
 
   /**
@@ -208,8 +296,11 @@ export class TypedValidators {
    * @see `updateValueAndValidity()`
    *
    */
-  static maxLength<T extends AbstractTypedControl>(maxLength: number): TypedValidatorFn<T> {
-    return (control: T) => Validators.maxLength(maxLength)(control.ng);
+  static maxLength<T extends AbstractTypedControl>(
+    maxLength: number
+  ): TypedValidatorFn<T, { maxlength: { requiredLength: number, actualLength: number } }> {
+    return (control: T) =>
+      Validators.maxLength(maxLength)(control.ng) as { maxlength: { requiredLength: number, actualLength: number } } | null;
   }
 
   /**
@@ -261,8 +352,11 @@ export class TypedValidators {
    * @see `updateValueAndValidity()`
    *
    */
-  static pattern<T extends AbstractTypedControl>(pattern: string|RegExp): TypedValidatorFn<T> {
-    return (control: T) => Validators.pattern(pattern)(control.ng);
+  static pattern<T extends AbstractTypedControl>(
+    pattern: string|RegExp
+  ): TypedValidatorFn<T, { pattern: { requiredPattern: string, actualValue: any } }> {
+    return (control: T) =>
+      Validators.pattern(pattern)(control.ng) as { pattern: { requiredPattern: string, actualValue: any } } | null;
   }
 
   /**
@@ -272,8 +366,428 @@ export class TypedValidators {
    * @see `updateValueAndValidity()`
    *
    */
-  static nullValidator<T extends AbstractTypedControl>(control: T): ValidationErrors|null {
-    return Validators.nullValidator(control.ng);
+  static nullValidator<T extends AbstractTypedControl>(control: T): null {
+    return Validators.nullValidator(control.ng) as null;
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormDictionary` that requires all of its keys to match a regex pattern.
+   * A string pattern is matched against the whole key, in the same way as by `pattern`.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const translations = new TypedFormDictionary({}, TypedValidators.keyPattern(/^[a-z]{2}$/));
+   * translations.addControl('english', new TypedFormControl(''));
+   *
+   * console.log(translations.errors); // {keyPattern: {requiredPattern: '/^[a-z]{2}$/', invalidKeys: ['english']}}
+   * ```
+   *
+   * @returns A validator function that returns an error map with the `keyPattern` property if any
+   * of the keys do not match, otherwise `null`.
+   */
+  static keyPattern(
+    pattern: string|RegExp
+  ): TypedValidatorFn<TypedFormDictionary<any, any, any>, { keyPattern: { requiredPattern: string, invalidKeys: string[] } }> {
+    const regex = typeof pattern === 'string' ? new RegExp(`^${pattern.replace(/^\^|\$$/g, '')}$`) : pattern;
+    const requiredPattern = typeof pattern === 'string' ? regex.source : pattern.toString();
+
+    return control => {
+      const invalidKeys = Object.keys(control.controls).filter(key => !regex.test(key));
+      return invalidKeys.length ? { keyPattern: { requiredPattern, invalidKeys } } : null;
+    };
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormDictionary` that requires it to have no more than the given number
+   * of entries.
+   *
+   * @returns A validator function that returns an error map with the `maxKeys` property if the
+   * dictionary has too many entries, otherwise `null`.
+   */
+  static maxKeys(max: number): TypedValidatorFn<TypedFormDictionary<any, any, any>, { maxKeys: { max: number, actual: number } }> {
+    return control => {
+      const actual = Object.keys(control.controls).length;
+      return actual > max ? { maxKeys: { max, actual } } : null;
+    };
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormDictionary` that requires it to have at least the given number of
+   * entries.
+   *
+   * @returns A validator function that returns an error map with the `minKeys` property if the
+   * dictionary has too few entries, otherwise `null`.
+   */
+  static minKeys(min: number): TypedValidatorFn<TypedFormDictionary<any, any, any>, { minKeys: { min: number, actual: number } }> {
+    return control => {
+      const actual = Object.keys(control.controls).length;
+      return actual < min ? { minKeys: { min, actual } } : null;
+    };
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormDictionary` that requires it to have an entry for each of the given
+   * keys.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const translations = new TypedFormDictionary({ fr: new TypedFormControl('Bonjour') }, TypedValidators.requiredKeys(['en']));
+   *
+   * console.log(translations.errors); // {requiredKeys: {missingKeys: ['en']}}
+   * ```
+   *
+   * @returns A validator function that returns an error map with the `requiredKeys` property if
+   * any of the keys are missing, otherwise `null`.
+   */
+  static requiredKeys(
+    keys: readonly string[]
+  ): TypedValidatorFn<TypedFormDictionary<any, any, any>, { requiredKeys: { missingKeys: string[] } }> {
+    return control => {
+      const missingKeys = keys.filter(key => !control.controls.hasOwnProperty(key));
+      return missingKeys.length ? { requiredKeys: { missingKeys } } : null;
+    };
+  }
+
+  /**
+   * @description
+   * Validator that requires the control's value to be one of the given values, compared
+   * structurally. Empty values are valid, to support optional controls.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const control = new TypedFormControl('xl', TypedValidators.allowedValues(['s', 'm', 'l']));
+   *
+   * console.log(control.errors); // {allowedValues: {allowed: ['s', 'm', 'l'], actual: 'xl'}}
+   * ```
+   *
+   * @returns A validator function that returns an error map with the `allowedValues` property if
+   * the value is not one of the given values, otherwise `null`.
+   */
+  static allowedValues<T extends AbstractTypedControl, V = any>(
+    values: readonly V[]
+  ): TypedValidatorFn<T, { allowedValues: { allowed: V[], actual: any } }> {
+    return control => isEmptyValue(control.value) || values.some(value => isEqual(value, control.value))
+      ? null
+      : { allowedValues: { allowed: values.slice(), actual: control.value } };
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormArray` that requires it to have at least the given number of items.
+   * Unlike `minLength`, an empty array is not valid.
+   *
+   * @returns A validator function that returns an error map with the `minItems` property if the
+   * array has too few items, otherwise `null`.
+   */
+  static minItems(min: number): TypedValidatorFn<TypedFormArray<any, any>, { minItems: { min: number, actual: number } }> {
+    return control => control.length < min ? { minItems: { min, actual: control.length } } : null;
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormArray` that requires it to have no more than the given number of
+   * items.
+   *
+   * @returns A validator function that returns an error map with the `maxItems` property if the
+   * array has too many items, otherwise `null`.
+   */
+  static maxItems(max: number): TypedValidatorFn<TypedFormArray<any, any>, { maxItems: { max: number, actual: number } }> {
+    return control => control.length > max ? { maxItems: { max, actual: control.length } } : null;
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormArray` that requires the values of its items to be different from
+   * each other, compared structurally.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const tags = new TypedFormArray([new TypedFormControl('a'), new TypedFormControl('a')], TypedValidators.uniqueItems);
+   *
+   * console.log(tags.errors); // {uniqueItems: {duplicates: [1]}}
+   * ```
+   *
+   * @returns An error map with the `uniqueItems` property, holding the indices of the items that
+   * repeat an earlier item, if there are any, otherwise `null`.
+   */
+  static uniqueItems(control: TypedFormArray<any, any>): { uniqueItems: { duplicates: number[] } }|null {
+    const values: any[] = control.getRawValue();
+    const duplicates = values
+      .map((value, i) => values.slice(0, i).some(other => isEqual(other, value)) ? i : -1)
+      .filter(i => i >= 0);
+
+    return duplicates.length ? { uniqueItems: { duplicates } } : null;
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormArray` that requires a part of the values of its items, chosen by the
+   * selector, to be different from each other, compared structurally. Items whose selected value
+   * is empty are not compared. Each item that repeats an earlier item is also marked with a
+   * `duplicate` error holding the index of the earlier item, for as long as it repeats it and
+   * belongs to the array.
+   *
+   * @usageNotes
+   *
+   * ### Validate that no email address is invited twice
+   *
+   * ```typescript
+   * const invites = new TypedFormArray([
+   *   new TypedFormGroup({ email: new TypedFormControl('a@example.com') }),
+   *   new TypedFormGroup({ email: new TypedFormControl('A@example.com') })
+   * ], TypedValidators.uniqueBy(invite => invite.email?.toLowerCase()));
+   *
+   * console.log(invites.errors); // {uniqueBy: {duplicates: [1]}}
+   * console.log(invites.at(1).errors); // {duplicate: {index: 0}}
+   * ```
+   *
+   * @returns A validator function that returns an error map with the `uniqueBy` property, holding
+   * the indices of the items that repeat an earlier item, if there are any, otherwise `null`.
+   */
+  static uniqueBy<T extends AbstractTypedControl>(
+    selector: (value: ValueType<T>) => unknown
+  ): TypedValidatorFn<TypedFormArray<T, any>, { uniqueBy: { duplicates: number[] } }> {
+    return control => {
+      const selected = (control.getRawValue() as ValueType<T>[]).map(selector);
+      const duplicates: number[] = [];
+
+      selected.forEach((value, i) => {
+        const index = isEmptyValue(value) ? -1 : selected.slice(0, i).findIndex(other => isEqual(other, value));
+        if (index < 0) return;
+
+        duplicates.push(i);
+        attachChildErrors(control, control.at(i), { duplicate: { index } });
+      });
+
+      return duplicates.length ? { uniqueBy: { duplicates } } : null;
+    };
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormArray` or `TypedFormDictionary` that requires every item or entry to
+   * pass the given validator. An empty collection is valid.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const scores = new TypedFormArray([new TypedFormControl(5), new TypedFormControl(12)], TypedValidators.every(TypedValidators.max(10)));
+   *
+   * console.log(scores.errors); // {every: {invalid: [1]}}
+   * ```
+   *
+   * @returns A validator function that returns an error map with the `every` property, holding
+   * the indices or keys of the items that fail the validator, if there are any, otherwise `null`.
+   */
+  static every<T extends AbstractTypedControl>(
+    validator: TypedValidatorFn<T, any>
+  ): TypedValidatorFn<TypedFormArray<T, any> | TypedFormDictionary<T, any, any>, { every: { invalid: Array<number | string> } }> {
+    return control => {
+      const invalid = collectionEntries<T>(control)
+        .filter(([, item]) => validator(item) !== null)
+        .map(([key]) => key);
+
+      return invalid.length ? { every: { invalid } } : null;
+    };
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormArray` or `TypedFormDictionary` that requires at least one item or
+   * entry to pass the given validator. An empty collection is not valid.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const contacts = new TypedFormArray([new TypedFormControl('')], TypedValidators.some(TypedValidators.required));
+   *
+   * console.log(contacts.errors); // {some: true}
+   * ```
+   *
+   * @returns A validator function that returns an error map with the `some` property if none of
+   * the items pass the validator, otherwise `null`.
+   */
+  static some<T extends AbstractTypedControl>(
+    validator: TypedValidatorFn<T, any>
+  ): TypedValidatorFn<TypedFormArray<T, any> | TypedFormDictionary<T, any, any>, { some: true }> {
+    return control => collectionEntries<T>(control).some(([, item]) => validator(item) === null) ? null : { some: true };
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormGroup` that requires the values of two of its fields to be equal,
+   * compared with `===`.
+   *
+   * @usageNotes
+   *
+   * ### Validate that the confirmation matches the password
+   *
+   * ```typescript
+   * const form = new TypedFormGroup({
+   *   password: new TypedFormControl('secret'),
+   *   confirm: new TypedFormControl('secrte')
+   * }, TypedValidators.equalFields('password', 'confirm', { attachTo: 'confirm' }));
+   *
+   * console.log(form.errors); // {equalFields: {field: 'password', other: 'confirm'}}
+   * console.log(form.controls.confirm.errors); // {equalFields: {field: 'password', other: 'confirm'}}
+   * ```
+   *
+   * @returns A validator function that returns an error map with the
+   * `equalFields` property if the validation check fails, otherwise `null`.
+   *
+   * @see `updateValueAndValidity()`
+   *
+   */
+  static equalFields<K extends string>(
+    field: K,
+    other: K,
+    opts: CrossFieldValidatorOptions<K> = {}
+  ): TypedGroupValidatorFn<K, { equalFields: { field: K, other: K } }> {
+    return crossFieldValidator('equalFields', opts, controls =>
+      controls[field].value === controls[other].value ? null : { equalFields: { field, other } });
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormGroup` that requires the value of one of its fields to compare with
+   * the value of another, such as an end date that must be after a start date. The check is
+   * skipped while either value is empty, to support optional fields.
+   *
+   * @usageNotes
+   *
+   * ### Validate that the start is before the end
+   *
+   * ```typescript
+   * const form = new TypedFormGroup({
+   *   start: new TypedFormControl(new Date(2020, 1, 1)),
+   *   end: new TypedFormControl(new Date(2019, 1, 1))
+   * }, TypedValidators.compareFields('start', '<', 'end'));
+   *
+   * console.log(form.errors); // {compareFields: {field: 'start', operator: '<', other: 'end'}}
+   * ```
+   *
+   * @returns A validator function that returns an error map with the
+   * `compareFields` property if the validation check fails, otherwise `null`.
+   *
+   * @see `updateValueAndValidity()`
+   *
+   */
+  static compareFields<K extends string, O extends FieldComparison>(
+    field: K,
+    operator: O,
+    other: K,
+    opts: CrossFieldValidatorOptions<K> = {}
+  ): TypedGroupValidatorFn<K, { compareFields: { field: K, operator: O, other: K } }> {
+    return crossFieldValidator('compareFields', opts, controls => {
+      const value = controls[field].value;
+      const otherValue = controls[other].value;
+      if (isEmptyValue(value) || isEmptyValue(otherValue) || compare(value, operator, otherValue)) return null;
+
+      return { compareFields: { field, operator, other } };
+    });
+  }
+
+  /**
+   * @description
+   * Validator of a `TypedFormGroup` that requires at least one of the given fields to have a
+   * non-empty value, as defined by the `required` validator.
+   *
+   * @usageNotes
+   *
+   * ### Validate that either a phone number or an email is given
+   *
+   * ```typescript
+   * const form = new TypedFormGroup({
+   *   phone: new TypedFormControl(''),
+   *   email: new TypedFormControl('')
+   * }, TypedValidators.atLeastOne(['phone', 'email'], { attachTo: ['phone', 'email'] }));
+   *
+   * console.log(form.errors); // {atLeastOne: {fields: ['phone', 'email']}}
+   * ```
+   *
+   * @returns A validator function that returns an error map with the
+   * `atLeastOne` property if the validation check fails, otherwise `null`.
+   *
+   * @see `updateValueAndValidity()`
+   *
+   */
+  static atLeastOne<K extends string>(...fields: K[]): TypedGroupValidatorFn<K, { atLeastOne: { fields: K[] } }>;
+  static atLeastOne<K extends string>(
+    fields: K[],
+    opts?: CrossFieldValidatorOptions<K>
+  ): TypedGroupValidatorFn<K, { atLeastOne: { fields: K[] } }>;
+  static atLeastOne<K extends string>(
+    ...args: K[] | [K[], CrossFieldValidatorOptions<K>?]
+  ): TypedGroupValidatorFn<K, { atLeastOne: { fields: K[] } }> {
+    const [fields, opts] = Array.isArray(args[0]) ? args as [K[], CrossFieldValidatorOptions<K>?] : [args as K[]];
+
+    return crossFieldValidator('atLeastOne', opts ?? {}, controls =>
+      fields.some(field => Validators.required(controls[field].ng) === null) ? null : { atLeastOne: { fields } });
+  }
+
+  /**
+   * @description
+   * Validator that only applies the given validator while a condition holds. The condition is
+   * checked against the value of the parent, or root, of the control, and the control is
+   * validated again whenever one of the paths that the condition depends on changes. The
+   * validator does not apply while the control has no parent.
+   *
+   * The subscriptions to the dependencies follow the control when it is moved to another parent,
+   * and are removed when the control is removed from its parent, or once the validator is no
+   * longer one of the validators of the control.
+   *
+   * @usageNotes
+   *
+   * ### Require a state only for addresses in the US
+   *
+   * ```typescript
+   * const address = new TypedFormGroup({
+   *   country: new TypedFormControl('US'),
+   *   state: new TypedFormControl('', TypedValidators.when(
+   *     (address: { country: string }) => address.country === 'US',
+   *     TypedValidators.required,
+   *     { dependsOn: ['country'] }
+   *   ))
+   * });
+   *
+   * console.log(address.controls.state.errors); // {required: true}
+   *
+   * address.controls.country.setValue('FR');
+   * console.log(address.controls.state.errors); // null
+   * ```
+   *
+   * @returns A validator function that returns the errors of the given validator while the
+   * condition holds, otherwise `null`.
+   *
+   * @see `updateValueAndValidity()`
+   *
+   */
+  static when<P, T extends AbstractTypedControl, E extends ValidationErrors>(
+    predicate: (value: P, control: T) => boolean,
+    validator: TypedValidatorFn<T, E>,
+    opts: ConditionalValidatorOptions<NoInfer<P>>
+  ): TypedValidatorFn<T, E> {
+    const watchers = new WeakMap<AbstractTypedControl, DependencyWatcher>();
+
+    return (control: T) => {
+      let watcher = watchers.get(control);
+      if (!watcher) {
+        watcher = watchDependencies(control, opts, () => watchers.delete(control));
+        watchers.set(control, watcher);
+      }
+      watcher.ran = true;
+
+      const scope = conditionScope(control, opts);
+      return scope && predicate(scope.value, control) ? validator(control) : null;
+    };
   }
 
   /**
@@ -288,7 +802,9 @@ export class TypedValidators {
    *
    */
   static compose<T extends AbstractTypedControl>(validators: null): null;
-  static compose<T extends AbstractTypedControl>(validators: (TypedValidatorFn<T>|null|undefined)[]): TypedValidatorFn<T>|null;
+  static compose<T extends AbstractTypedControl, V extends (TypedValidatorFn<T, any>|null|undefined)[]>(
+    validators: [...V]
+  ): TypedValidatorFn<T, ValidatorErrors<V[number]>>|null;
   static compose<T extends AbstractTypedControl>(validators: (TypedValidatorFn<T>|null|undefined)[]|null): TypedValidatorFn<T>|null {
     if (!validators) return null;
     const presentValidators: TypedValidatorFn<T>[] = validators.filter(isPresent) as any;
@@ -302,7 +818,8 @@ export class TypedValidators {
   /**
    * @description
    * Compose multiple async validators into a single function that returns the union
-   * of the individual error objects for the provided control.
+   * of the individual error objects for the provided control. Only the first result of each
+   * validator is used, so validators whose observables do not complete still finish.
    *
    * @returns A validator function that returns an error map with the
    * merged error objects of the async validators if the validation check fails, otherwise `null`.
@@ -310,17 +827,254 @@ export class TypedValidators {
    * @see `updateValueAndValidity()`
    *
    */
-  static composeAsync<T extends AbstractTypedControl>(validators: (TypedAsyncValidatorFn<T>|null)[]): TypedAsyncValidatorFn<T>|null {
+  static composeAsync<T extends AbstractTypedControl, V extends (TypedAsyncValidatorFn<T, any>|null)[]>(
+    validators: [...V],
+    opts?: ComposeAsyncOptions
+  ): TypedAsyncValidatorFn<T, ValidatorErrors<V[number]>>|null;
+  static composeAsync<T extends AbstractTypedControl>(
+    validators: (TypedAsyncValidatorFn<T>|null)[],
+    opts: ComposeAsyncOptions = {}
+  ): TypedAsyncValidatorFn<T>|null {
     if (!validators) return null;
     const presentValidators: TypedAsyncValidatorFn<T>[] = validators.filter(isPresent) as any;
     if (presentValidators.length == 0) return null;
 
     return function(control: T) {
-      const observables =
-          executeValidators<T, TypedAsyncValidatorFn<T>>(control, presentValidators).map(toObservable);
-      return forkJoin(observables).pipe(map(mergeErrors));
+      const observables = executeValidators<T, TypedAsyncValidatorFn<T>>(control, presentValidators)
+        .map(result => toObservable(result).pipe(take(1)));
+      if (opts.strategy !== 'partial') return forkJoin(observables).pipe(map(mergeErrors));
+
+      const results: (ValidationErrors|null)[] = observables.map(() => null);
+      return merge(...observables.map((observable, index) => observable.pipe(map(errors => {
+        results[index] = errors;
+        return mergeErrors(results);
+      }))));
     };
   }
+
+  /**
+   * @description
+   * Delays an async validator until the value of the control has not changed for the given time.
+   * Angular unsubscribes from the validation of the previous value whenever the control is
+   * validated again, so the validator is not called for values that are replaced within the time,
+   * and requests that are still in flight for the previous value are cancelled.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const name = new TypedFormControl('', {
+   *   asyncValidators: TypedValidators.debounceAsync(300, control => checkName(control.value))
+   * });
+   * ```
+   *
+   * @returns A validator function that returns the errors of the given validator once the value
+   * has settled.
+   *
+   * @see `updateValueAndValidity()`
+   *
+   */
+  static debounceAsync<T extends AbstractTypedControl, E extends ValidationErrors>(
+    ms: number,
+    validator: TypedAsyncValidatorFn<T, E>
+  ): TypedAsyncValidatorFn<T, E> {
+    return (control: T) => timer(ms).pipe(switchMap(() => toObservable(validator(control))), take(1));
+  }
+
+  /**
+   * @description
+   * Caches the results of an async validator by the value of the control, or by the given key, so
+   * that values that have been validated before are not sent again. The cache belongs to the
+   * returned function and is shared by every control that it validates. Results are only cached
+   * once the validator has emitted them, so cancelled requests are not cached.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const unique = TypedValidators.cacheAsync(
+   *   (control: TypedFormControl<string>) => checkName(control.value),
+   *   { key: control => control.value.toLowerCase(), ttl: 60000 }
+   * );
+   * ```
+   *
+   * @returns A validator function that returns the cached errors of the given validator, or calls
+   * it when there are none.
+   *
+   * @see `updateValueAndValidity()`
+   *
+   */
+  static cacheAsync<T extends AbstractTypedControl, E extends ValidationErrors>(
+    validator: TypedAsyncValidatorFn<T, E>,
+    opts: CacheAsyncOptions<T> = {}
+  ): TypedAsyncValidatorFn<T, E> {
+    const cache = new Map<string, { errors: E | null, expires: number }>();
+
+    return (control: T) => {
+      const key = opts.key ? opts.key(control) : JSON.stringify(control.value);
+      const cached = cache.get(key);
+      if (cached && cached.expires > Date.now()) return of(cached.errors);
+
+      cache.delete(key);
+      return toObservable(validator(control)).pipe(
+        take(1),
+        tap((errors: E | null) => cache.set(key, { errors, expires: Date.now() + (opts.ttl ?? Infinity) }))
+      );
+    };
+  }
+
+  /**
+   * @description
+   * Gives up on an async validator that has not emitted within the given time, so that the control
+   * does not stay pending, and returns the given errors instead.
+   *
+   * @usageNotes
+   *
+   * ```typescript
+   * const name = new TypedFormControl('', {
+   *   asyncValidators: TypedValidators.timeoutAsync(5000, control => checkName(control.value), { unchecked: true })
+   * });
+   * ```
+   *
+   * @param ms The time to wait for the validator in milliseconds.
+   *
+   * @param validator The validator to wait for.
+   *
+   * @param onTimeoutError The errors returned when the validator times out, or `null` to treat
+   * the value as valid.
+   *
+   * @returns A validator function that returns the errors of the given validator, or the given
+   * errors when it times out.
+   *
+   * @see `updateValueAndValidity()`
+   *
+   */
+  static timeoutAsync<T extends AbstractTypedControl, E extends ValidationErrors, F extends ValidationErrors>(
+    ms: number,
+    validator: TypedAsyncValidatorFn<T, E>,
+    onTimeoutError: F | null
+  ): TypedAsyncValidatorFn<T, E | F> {
+    return (control: T) => toObservable(validator(control)).pipe(
+      take(1),
+      timeout(ms),
+      catchError(error => error instanceof TimeoutError ? of(onTimeoutError) : throwError(error))
+    );
+  }
+}
+
+/**
+ * Creates a validator of a group that also attaches its error to the fields given to attach it to,
+ * for as long as the check fails and the group has the validator.
+ */
+function crossFieldValidator<K extends string, E extends ValidationErrors>(
+  code: keyof E & string,
+  opts: CrossFieldValidatorOptions<K>,
+  validate: (controls: { [P in K]: AbstractTypedControl }) => E | null
+): TypedGroupValidatorFn<K, E> {
+  const attachTo = opts.attachTo == null ? [] : Array.isArray(opts.attachTo) ? opts.attachTo : [opts.attachTo];
+
+  return (group: { controls: { [P in K]: AbstractTypedControl } }) => {
+    const errors = validate(group.controls);
+    if (errors && group instanceof AbstractTypedControl) {
+      attachTo.forEach(field => attachChildErrors(group, group.controls[field], { [code]: errors[code] }));
+    }
+    return errors;
+  };
+}
+
+/**
+ * Gets the items of an array with their indices, or the entries of a dictionary with their keys.
+ */
+function collectionEntries<T extends AbstractTypedControl>(
+  control: TypedFormArray<T, any> | TypedFormDictionary<T, any, any>
+): Array<[number | string, T]> {
+  if (control instanceof TypedFormArray) return control.controls.map((item, index): [number, T] => [index, item]);
+
+  const controls: Record<string, T> = control.controls;
+  return Object.keys(controls).map((key): [string, T] => [key, controls[key]]);
+}
+
+function conditionScope(control: AbstractTypedControl, opts: ConditionalValidatorOptions<any>): AbstractTypedControl | null {
+  if (!control.parent) return null;
+  return opts.scope === 'root' ? control.root : control.parent;
+}
+
+/**
+ * The watch of the dependencies of a conditional validator on one control. `ran` is set whenever
+ * the validator runs, so that the watch can tell whether the control still has the validator.
+ */
+interface DependencyWatcher {
+  ran: boolean;
+}
+
+/**
+ * Validates the control again whenever one of the dependencies of its condition changes. The
+ * check waits for the scope to emit, so that the condition sees the updated value of the scope.
+ * When validating the control no longer runs the validator, because it has been replaced or
+ * removed, the watch stops and `onStop` is called, so that the validator can watch again should
+ * it be given back to the control.
+ */
+function watchDependencies(
+  control: AbstractTypedControl,
+  opts: ConditionalValidatorOptions<any>,
+  onStop: () => void
+): DependencyWatcher {
+  const watcher: DependencyWatcher = { ran: false };
+  let subscription: Subscription | null = null;
+
+  const stop = () => {
+    subscription?.unsubscribe();
+    subscription = null;
+    unregister();
+    onStop();
+  };
+
+  // Angular does not run the validators of disabled controls, so they cannot tell.
+  const revalidate = () => {
+    watcher.ran = false;
+    control.updateValueAndValidity();
+    if (!watcher.ran && control.enabled) stop();
+  };
+
+  const subscribe = () => {
+    subscription?.unsubscribe();
+    subscription = null;
+
+    const scope = conditionScope(control, opts);
+    if (!scope) return;
+
+    let changed = false;
+    subscription = new Subscription();
+    opts.dependsOn.forEach(path => {
+      const dependency = scope.get(path);
+      if (dependency) subscription!.add(dependency.valueChanges.subscribe(() => changed = true));
+    });
+    subscription.add(scope.valueChanges.subscribe(() => {
+      if (!changed) return;
+
+      changed = false;
+      revalidate();
+    }));
+  };
+
+  const unregister = control._registerOnContextChange(() => {
+    subscribe();
+    if (control.parent) revalidate();
+  });
+  subscribe();
+
+  return watcher;
+}
+
+function isEmptyValue(value: any): boolean {
+  return value == null || value === '';
+}
+
+function compare(value: any, operator: FieldComparison, other: any): boolean {
+  switch (operator) {
+    case '<': return value < other;
+    case '<=': return value <= other;
+    case '>': return value > other;
+    case '>=': return value >= other;
+  }
 }
 
 function isPresent(o: any): boolean {
@@ -358,9 +1112,9 @@ function executeValidators<T extends AbstractTypedControl, V extends GenericVali
 }
 
 function isValidatorFn<V, T extends AbstractTypedControl>(
-  validator: V|TypedValidator<T>|TypedAsyncValidator<T>
+  validator: V|TypedValidator<T, any>|TypedAsyncValidator<T, any>
 ): validator is V {
-  return !(validator as TypedValidator<T>).validate;
+  return !(validator as TypedValidator<T, any>).validate;
 }
 
 /**
@@ -372,7 +1126,7 @@ function isValidatorFn<V, T extends AbstractTypedControl>(
  *     as well as represented as a validator class.
  */
 export function normalizeValidators<V, T extends AbstractTypedControl>(
-  validators: (V|TypedValidator<T>|TypedAsyncValidator<T>)[]
+  validators: (V|TypedValidator<T, any>|TypedAsyncValidator<T, any>)[]
 ): V[] {
   return validators.map(validator => {
     return isValidatorFn<V, T>(validator) ?
@@ -385,20 +1139,24 @@ export function normalizeValidators<V, T extends AbstractTypedControl>(
  * Merges synchronous validators into a single validator function (combined using
  * `Validators.compose`).
  */
-export function composeValidators<T extends AbstractTypedControl>(
-  validators: Array<TypedValidator<T>|TypedValidatorFn<T>>
-): TypedValidatorFn<T>|null {
-  return validators != null ? TypedValidators.compose(normalizeValidators<TypedValidatorFn<T>, T>(validators)) : null;
+export function composeValidators<T extends AbstractTypedControl, E extends ValidationErrors = ValidationErrors>(
+  validators: Array<TypedValidator<T, E>|TypedValidatorFn<T, E>>
+): TypedValidatorFn<T, E>|null {
+  return validators != null ?
+    TypedValidators.compose(normalizeValidators<TypedValidatorFn<T, E>, T>(validators)) as TypedValidatorFn<T, E>|null :
+    null;
 }
 
 /**
  * Merges asynchronous validators into a single validator function (combined using
  * `Validators.composeAsync`).
  */
-export function composeAsyncValidators<T extends AbstractTypedControl>(
-  validators: Array<TypedAsyncValidator<T>|TypedAsyncValidatorFn<T>>
-): TypedAsyncValidatorFn<T>|null {
-  return validators != null ? TypedValidators.composeAsync(normalizeValidators<TypedAsyncValidatorFn<T>, T>(validators)) : null;
+export function composeAsyncValidators<T extends AbstractTypedControl, E extends ValidationErrors = ValidationErrors>(
+  validators: Array<TypedAsyncValidator<T, E>|TypedAsyncValidatorFn<T, E>>
+): TypedAsyncValidatorFn<T, E>|null {
+  return validators != null ?
+    TypedValidators.composeAsync(normalizeValidators<TypedAsyncValidatorFn<T, E>, T>(validators)) as TypedAsyncValidatorFn<T, E>|null :
+    null;
 }
 
 /**
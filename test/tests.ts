@@ -1,4 +1,8 @@
-import { TypedFormArray, TypedFormControl, TypedFormDictionary, TypedFormGroup } from '../src';
+import {
+  applyPatch, applyServerErrors, clearServerErrors, controlFromSchema, createPatch, MemoryDraftStorage, provideErrorMessages,
+  TypedFormArray, TypedFormBuilder, TypedFormControl, TypedFormDictionary, TypedFormDraft, TypedFormGroup, TypedFormHistory,
+  TypedFormUnion, TypedValidators
+} from '../src';
 
 const c = new TypedFormControl('test');
 
@@ -59,3 +63,259 @@ form.value;
 form.controls.locations.addControl('brazil', new TypedFormGroup({ count: new TypedFormControl(0) }));
 form.controls.locations.addControl('brazil', new TypedFormControl(0));
 
+form.get('details.weight').valueChanges // type is Observable<number>
+
+form.get(['locations', 'usa', 'count']) // type is TypedFormControl<number> | null
+
+form.get('details.height'); // error: not a valid path
+
+const age = new TypedFormControl(0, TypedValidators.compose([TypedValidators.min(18), TypedValidators.required]));
+
+age.getError('min') // type is { min: number, actual: number } | null | undefined
+
+age.hasError('minlength') // error: not one of the errors of the control
+
+const wrapped = TypedFormGroup.fromNg<{ name: TypedFormControl<string>, tags: TypedFormArray<TypedFormControl<string>> }>(
+  form.ng,
+  { name: 'control', tags: { array: 'control' } }
+);
+
+wrapped.controls.tags.at(0).value // type is string
+
+const fb = new TypedFormBuilder();
+
+const built = fb.group({
+  name: ['', TypedValidators.required],
+  age: fb.control(0, [TypedValidators.min(18)]),
+  tags: fb.array(['angular'])
+});
+
+built.controls.age.getError('min') // type is { min: number, actual: number } | null | undefined
+
+fb.group({ name: ['', TypedValidators.minKeys(1)] }); // error: only dictionaries have keys
+
+fb.array([[0, (control: TypedFormControl<string>) => null]]); // error: the items are number controls
+
+const signUp = new TypedFormGroup({
+  password: new TypedFormControl(''),
+  confirm: new TypedFormControl('')
+}, TypedValidators.equalFields('password', 'confirm', { attachTo: 'confirm' }));
+
+signUp.getError('equalFields') // type is { field: 'password' | 'confirm', other: 'password' | 'confirm' } | null | undefined
+
+signUp.setValidators(TypedValidators.atLeastOne('password', 'confirmation')); // error: 'confirmation' is not a control of the group
+
+const address = new TypedFormGroup({
+  country: new TypedFormControl('US'),
+  state: new TypedFormControl('', TypedValidators.when(
+    (value: { country: string | null }) => value.country === 'US',
+    TypedValidators.required,
+    { dependsOn: ['contry'] } // error: not a path of the value
+  ))
+});
+
+address.controls.state.getError('required') // type is true | null | undefined
+
+const contact = new TypedFormGroup({
+  hasAddress: new TypedFormControl(false),
+  address: new TypedFormControl('', {
+    enabledWhen: { rule: (root: TypedFormGroup<{ hasAddress: TypedFormControl<boolean> }>) => !!root.value.hasAddress, resetTo: '' }
+  })
+});
+
+new TypedFormControl('', { enabledWhen: { rule: root => root.value.hasAddress, resetTo: 0 } }); // error: resetTo must be a string
+
+const shipping = new TypedFormGroup({
+  sameAsBilling: new TypedFormControl(true),
+  street: new TypedFormControl('Main Street', {
+    enabledWhen: (root: TypedFormGroup<{ sameAsBilling: TypedFormControl<boolean> }>) => !root.controls.sameAsBilling.value
+  })
+});
+
+shipping.controls.street.value // 'Main Street', the rule is first checked once the street is part of the form
+
+const payment = new TypedFormUnion('type', {
+  card: { cardNumber: new TypedFormControl(''), expiry: new TypedFormControl<Date>() },
+  bank: { iban: new TypedFormControl('') }
+}, 'card');
+
+const paymentValue = payment.value;
+if (paymentValue.type === 'bank') {
+  paymentValue.iban // type is string | null
+  paymentValue.cardNumber // error: not part of the bank variant
+}
+
+payment.discriminator.setValue('cash'); // error: not a variant
+
+age.value$ // type is Observable<number>
+
+age.status$ // type is Observable<ControlStatus>
+
+age.errors$.subscribe(errors => errors?.min?.actual) // type is number | undefined
+
+payment.events$.subscribe(event => {
+  if (event.type === 'value') event.value.type // type is 'card' | 'bank'
+  if (event.type === 'touched') event.value // error: touched events have no value
+});
+
+const formSnapshot = JSON.stringify(form.snapshot());
+
+form.restore(JSON.parse(formSnapshot), {
+  createControl: (parent, key) => parent === form.controls.locations ? new TypedFormGroup({ count: new TypedFormControl(0) }) : new TypedFormControl()
+});
+
+form.restore(form.controls.name.value); // error: not a snapshot
+
+const draft = new TypedFormDraft(signUp, { key: 'sign-up', storage: new MemoryDraftStorage(), exclude: ['password'] });
+
+draft.read()?.confirm // type is string | null | undefined
+
+new TypedFormDraft(signUp, { key: 'sign-up', exclude: ['pasword'] }); // error: not a path of the value
+
+const history = new TypedFormHistory(form, { maxDepth: 50 });
+
+history.canUndo$ // type is Observable<boolean>
+
+history.control.controls.name // type is TypedFormControl<string>
+
+new TypedFormHistory(form, { depth: 50 }); // error: not an option
+
+const people = new TypedFormArray<TypedFormGroup<{ name: TypedFormControl<string> }>>([], {
+  itemFactory: value => new TypedFormGroup({ name: new TypedFormControl(value?.name ?? '') })
+});
+
+people.setValue([{ name: 'paul' }, { name: 'simon' }]);
+
+people.move(0, 1);
+
+people.sort((a, b) => (a.value.name ?? '').localeCompare(b.value.name ?? ''));
+
+people.trackBy(0, people.at(0)) // type is number
+
+people.removeWhere(item => item.value.nme === ''); // error: not a field of the items
+
+people.replaceAll([new TypedFormControl('paul')]); // error: items must be TypedFormGroup<{ name: TypedFormControl<string> }>
+
+new TypedFormArray<TypedFormControl<string>>([], { itemFactory: () => new TypedFormControl(0) }); // error: items must be TypedFormControl<string>
+
+const translations = new TypedFormDictionary<TypedFormControl<string>, 'en' | 'fr' | 'de'>({}, {
+  validators: [TypedValidators.keyPattern(/^[a-z]{2}$/), TypedValidators.maxKeys(2)],
+  entryFactory: (key, value) => new TypedFormControl(value ?? '')
+});
+
+translations.value.fr // type is string | null
+
+translations.getError('maxKeys') // type is { max: number, actual: number } | null | undefined
+
+translations.addControl('es', new TypedFormControl('')); // error: not one of the keys
+
+new TypedFormControl('', TypedValidators.maxKeys(2)); // error: only dictionaries have keys
+
+form.isChanged // type is boolean
+
+form.getChangedValue().details?.weight // type is number | null | undefined
+
+form.getChangedValue().locations?.usa?.count // type is number | null | undefined
+
+people.getChangedValue() // type is { name: string | null }[] | undefined
+
+form.getChangedValue().details?.height // error: not a field of the group
+
+const patch = createPatch(form, form.initialValue);
+
+applyPatch(form, [...patch, { op: 'move', from: '/locations/usa', path: '/locations/canada' }]);
+
+createPatch(form, { name: 'paul' }); // error: not a value of the form
+
+applyPatch(form, [{ op: 'replace', path: '/name' }]); // error: replace needs a value
+
+const schemaForm = controlFromSchema({
+  type: 'object',
+  properties: {
+    name: { type: 'string', maxLength: 50 },
+    size: { enum: ['small', 'medium', 'large'] },
+    tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+    counts: { type: 'object', additionalProperties: { type: 'integer' } }
+  },
+  required: ['name']
+} as const);
+
+schemaForm.controls.size.value // type is 'small' | 'medium' | 'large' | null
+
+schemaForm.controls.counts.value // type is Record<string, number | null>
+
+schemaForm.controls.size.setValue('huge'); // error: not one of the enum values
+
+new TypedFormArray([new TypedFormControl('')], TypedValidators.compose([TypedValidators.minItems(1), TypedValidators.uniqueItems]));
+
+new TypedFormControl('', TypedValidators.minItems(1)); // error: only arrays have items
+
+const unmatched = applyServerErrors(form, [{ path: '/details/weight', code: 'tooHeavy' }], { pathFormat: 'pointer' });
+
+unmatched[0]?.path // type is string
+
+clearServerErrors(form.controls.details);
+
+applyServerErrors(form, [{ path: 'name', code: 'taken' }], { pathFormat: 'backslash' }); // error: not a path format
+
+age.errorMessages$ // type is Observable<string[]>
+
+age.firstErrorMessage // type is string | null
+
+provideErrorMessages({
+  minlength: error => `Au moins ${error.requiredLength} caractères`,
+  taken: 'Already taken'
+}, 'fr');
+
+provideErrorMessages({ min: error => `At least ${error.minimum}` }); // error: not a property of the min error
+
+const errorEntries = form.collectErrors({ includeDisabled: true });
+
+errorEntries[0]?.control // type is AbstractTypedControl
+
+form.collectErrors$({ disabled: true }); // error: not an option
+
+const checkName = TypedValidators.cacheAsync(
+  (control: TypedFormControl<string>) => Promise.resolve(control.value === 'taken' ? { taken: true as const } : null),
+  { key: control => control.value.toLowerCase(), ttl: 60000 }
+);
+
+const limitedName = TypedValidators.timeoutAsync(5000, TypedValidators.debounceAsync(300, checkName), { unchecked: true as const });
+
+limitedName(new TypedFormControl('')) // type is Promise<...> | Observable<{ taken: true } | { unchecked: true } | null>
+
+new TypedFormControl('', { asyncValidators: TypedValidators.composeAsync([limitedName], { strategy: 'partial' }) });
+
+new TypedFormControl('', { asyncValidators: TypedValidators.composeAsync([limitedName], { strategy: 'race' }) }); // error: not a compose strategy
+
+TypedValidators.cacheAsync(checkName, { key: control => control.value.length }); // error: the key must be a string
+
+const nickname = new TypedFormControl<string>('', TypedValidators.maxLength(20));
+
+nickname.addValidators([TypedValidators.required, TypedValidators.pattern('[a-z]*')]);
+
+nickname.removeValidators(TypedValidators.required);
+
+nickname.hasValidator(TypedValidators.required) // type is boolean
+
+nickname.addValidators(TypedValidators.minItems(1)); // error: only arrays have items
+
+const invites = new TypedFormArray([
+  new TypedFormGroup({ email: new TypedFormControl('a@example.com'), name: new TypedFormControl('') })
+], [
+  TypedValidators.minItems(1),
+  TypedValidators.uniqueBy(invite => invite.email?.toLowerCase()),
+  TypedValidators.every(TypedValidators.required)
+]);
+
+new TypedFormArray([new TypedFormControl('')], TypedValidators.uniqueBy(value => value?.length));
+
+new TypedFormArray([new TypedFormControl('')], TypedValidators.uniqueBy(value => value?.email)); // error: items are strings
+
+new TypedFormDictionary({ en: new TypedFormControl('Hello') }, [
+  TypedValidators.minKeys(1),
+  TypedValidators.requiredKeys(['en']),
+  TypedValidators.some(TypedValidators.required)
+]);
+
+new TypedFormControl('', TypedValidators.minKeys(1)); // error: only dictionaries have keys